@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TerminalConfig } from './types';
+
+const SHELL_INTEGRATION_TIMEOUT = 3000;
+
+export interface CommandRunResult {
+    // finished: every command ran and the last one has ended; stopped: a command failed and the rest were skipped;
+    // sent: no shell integration, so the outcome is unknown; closed: the terminal closed first
+    outcome: 'finished' | 'stopped' | 'sent' | 'closed';
+    command?: string;
+    exitCode?: number;
+}
+
+export class CommandRunner {
+    // Execute commands in order of priority: script > commands > command
+    getCommands(config: TerminalConfig, basePath: string): string[] {
+        if (config.script) {
+            return [path.isAbsolute(config.script) ? config.script : path.join(basePath, config.script)];
+        }
+        if (config.commands && config.commands.length > 0) {
+            return config.commands;
+        }
+        return config.command ? [config.command] : [];
+    }
+
+    async run(terminal: vscode.Terminal, config: TerminalConfig, basePath: string): Promise<CommandRunResult> {
+        const commands = this.getCommands(config, basePath);
+        if (commands.length === 0) {
+            return { outcome: 'sent' };
+        }
+
+        const shellIntegration = await this.waitForShellIntegration(terminal);
+        if (!shellIntegration) {
+            return this.runWithDelays(terminal, commands, config.commandDelay || 100);
+        }
+
+        // With shell integration each command is sent only after the previous one finished.
+        // The last command is usually long-running (a dev server), so its end is only reported, not waited on by anyone.
+        for (let i = 0; i < commands.length; i++) {
+            const execution = shellIntegration.executeCommand(commands[i]);
+            const exitCode = await this.waitForExecutionEnd(terminal, execution);
+            if (exitCode === 'closed') {
+                return { outcome: 'closed', command: commands[i] };
+            }
+
+            const isLast = i === commands.length - 1;
+            if (!isLast && exitCode !== undefined && exitCode !== 0 && config.stopOnFailure !== false) {
+                vscode.window.showWarningMessage(
+                    `${terminal.name}: "${commands[i]}" exited with code ${exitCode}. The remaining ${commands.length - i - 1} command(s) were not run.`
+                );
+                return { outcome: 'stopped', command: commands[i], exitCode };
+            }
+            if (isLast) {
+                return { outcome: 'finished', command: commands[i], exitCode };
+            }
+        }
+
+        return { outcome: 'finished' };
+    }
+
+    private async runWithDelays(terminal: vscode.Terminal, commands: string[], delay: number): Promise<CommandRunResult> {
+        // Without shell integration there is no way to know when a command finishes, so fall back to fixed delays
+        for (let i = 0; i < commands.length; i++) {
+            if (i > 0) {
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+            terminal.sendText(commands[i]);
+        }
+        return { outcome: 'sent' };
+    }
+
+    private waitForShellIntegration(terminal: vscode.Terminal): Promise<vscode.TerminalShellIntegration | undefined> {
+        if (terminal.shellIntegration) {
+            return Promise.resolve(terminal.shellIntegration);
+        }
+
+        return new Promise(resolve => {
+            const finish = (shellIntegration: vscode.TerminalShellIntegration | undefined) => {
+                clearTimeout(timer);
+                listener.dispose();
+                resolve(shellIntegration);
+            };
+            const listener = vscode.window.onDidChangeTerminalShellIntegration(event => {
+                if (event.terminal === terminal) {
+                    finish(event.shellIntegration);
+                }
+            });
+            // By the time this runs out the shell has long finished starting, so the fallback can send right away
+            const timer = setTimeout(() => finish(undefined), SHELL_INTEGRATION_TIMEOUT);
+        });
+    }
+
+    private waitForExecutionEnd(terminal: vscode.Terminal, execution: vscode.TerminalShellExecution): Promise<number | undefined | 'closed'> {
+        return new Promise(resolve => {
+            const disposables = [
+                vscode.window.onDidEndTerminalShellExecution(event => {
+                    if (event.execution === execution) {
+                        disposables.forEach(disposable => disposable.dispose());
+                        resolve(event.exitCode);
+                    }
+                }),
+                vscode.window.onDidCloseTerminal(closed => {
+                    if (closed === terminal) {
+                        disposables.forEach(disposable => disposable.dispose());
+                        resolve('closed');
+                    }
+                })
+            ];
+        });
+    }
+}
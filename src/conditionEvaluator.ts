@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Platform, WhenConfig } from './types';
+
+const PLATFORM_NAMES: Partial<Record<NodeJS.Platform, Platform>> = {
+    win32: 'windows',
+    darwin: 'macos',
+    linux: 'linux'
+};
+
+// Checks "when" conditions against this machine and the project folder; made once per launch
+export class ConditionEvaluator {
+    // Looked up on first use, since most configs never ask for it
+    private branch?: { name?: string };
+
+    constructor(private basePath: string) {}
+
+    // Returns why the conditions do not hold, e.g. "it only runs on windows", or undefined when they all do
+    check(when: WhenConfig): string | undefined {
+        const platforms = this.asList(when.platform);
+        const platform = PLATFORM_NAMES[process.platform] || process.platform;
+        if (platforms.length > 0 && !platforms.includes(platform as Platform)) {
+            return `it only runs on ${platforms.join(' or ')}`;
+        }
+
+        for (const file of this.asList(when.exists)) {
+            if (!fs.existsSync(path.resolve(this.basePath, file))) {
+                return `${file} does not exist`;
+            }
+        }
+        for (const file of this.asList(when.notExists)) {
+            if (fs.existsSync(path.resolve(this.basePath, file))) {
+                return `${file} exists`;
+            }
+        }
+
+        // Empty variables count as unset, the way most tools treat them
+        for (const name of this.asList(when.envSet)) {
+            if (!process.env[name]) {
+                return `${name} is not set`;
+            }
+        }
+        for (const name of this.asList(when.envUnset)) {
+            if (process.env[name]) {
+                return `${name} is set`;
+            }
+        }
+        for (const [name, pattern] of Object.entries(when.env || {})) {
+            const value = process.env[name];
+            if (value === undefined || !this.matches(value, pattern)) {
+                return value === undefined ? `${name} is not set` : `${name} is "${value}", not "${pattern}"`;
+            }
+        }
+
+        const branches = this.asList(when.branch);
+        if (branches.length > 0) {
+            const branch = this.getBranch();
+            if (!branch) {
+                return 'the project is not on a git branch';
+            }
+            if (!branches.some(pattern => this.matches(branch, pattern))) {
+                return `the git branch is "${branch}", not ${branches.map(pattern => `"${pattern}"`).join(' or ')}`;
+            }
+        }
+
+        const settings = vscode.workspace.getConfiguration(undefined, vscode.Uri.file(this.basePath));
+        for (const [key, expected] of Object.entries(when.settings || {})) {
+            const actual = settings.get(key);
+            // Compared as text, so "true" in the simple format matches a boolean setting
+            if (String(actual) !== String(expected)) {
+                return `the setting ${key} is ${JSON.stringify(actual)}, not ${JSON.stringify(expected)}`;
+            }
+        }
+
+        return undefined;
+    }
+
+    private getBranch(): string | undefined {
+        if (!this.branch) {
+            this.branch = { name: this.readBranch() };
+        }
+        return this.branch.name;
+    }
+
+    // Reads HEAD of the nearest repository; undefined outside a repository or on a detached HEAD
+    private readBranch(): string | undefined {
+        let directory = this.basePath;
+        while (true) {
+            const gitPath = path.join(directory, '.git');
+            try {
+                const stat = fs.statSync(gitPath);
+                // Worktrees and submodules have a .git file pointing at the real git directory
+                const gitDir = stat.isDirectory()
+                    ? gitPath
+                    : path.resolve(directory, fs.readFileSync(gitPath, 'utf8').replace(/^gitdir:\s*/, '').trim());
+                const head = fs.readFileSync(path.join(gitDir, 'HEAD'), 'utf8');
+                return /^ref: refs\/heads\/(.+)$/m.exec(head)?.[1].trim();
+            } catch (error) {
+                // No repository here; keep looking in the parent folders
+            }
+
+            const parent = path.dirname(directory);
+            if (parent === directory) {
+                return undefined;
+            }
+            directory = parent;
+        }
+    }
+
+    private matches(value: string, pattern: string): boolean {
+        const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+        return new RegExp(`^${source}$`).test(value);
+    }
+
+    private asList<T extends string>(value: T | T[] | undefined): T[] {
+        return value === undefined ? [] : Array.isArray(value) ? value : [value];
+    }
+}
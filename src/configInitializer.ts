@@ -1,9 +1,14 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { TerminalLauncherConfig } from './types';
+import { ConfigWriter } from './configWriter';
+import { ProjectScanner } from './projectScanner';
+import { TerminalConfig, TerminalLauncherConfig } from './types';
 
 export class ConfigInitializer {
+    private configWriter = new ConfigWriter();
+    private projectScanner = new ProjectScanner();
+
     private readonly colors = [
         { label: '🔵 Blue', value: 'blue' },
         { label: '🟢 Green', value: 'green' },
@@ -69,10 +74,10 @@ export class ConfigInitializer {
 
         switch (setupType.label) {
             case '🚀 Quick Setup':
-                config = await this.quickSetup();
+                config = await this.quickSetup(targetFolder.uri.fsPath);
                 break;
             case '🏗️ Advanced Setup':
-                config = await this.advancedSetup();
+                config = await this.advancedSetup(targetFolder.uri.fsPath);
                 break;
             case '📋 Example Template':
                 config = this.createExampleTemplate();
@@ -218,7 +223,42 @@ export class ConfigInitializer {
         return subdirectories;
     }
 
-    private async quickSetup(): Promise<TerminalLauncherConfig | undefined> {
+    // Offers the scripts found in the folder; resolves to an empty list when none were found or picked
+    private async pickDetectedTerminals(folderPath: string): Promise<TerminalConfig[] | undefined> {
+        const detected = this.projectScanner.scan(folderPath);
+        if (detected.length === 0) {
+            return [];
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            detected.map(item => ({
+                label: item.terminal.name,
+                description: item.terminal.command,
+                detail: `${item.source}${item.terminal.cwd ? ` in ${item.terminal.cwd}` : ''}`,
+                terminal: item.terminal
+            })),
+            {
+                placeHolder: 'Select detected commands to add, or press Enter with none selected to enter terminals manually',
+                canPickMany: true,
+                matchOnDescription: true
+            }
+        );
+
+        return selected?.map(item => item.terminal);
+    }
+
+    private async quickSetup(folderPath: string): Promise<TerminalLauncherConfig | undefined> {
+        const detected = await this.pickDetectedTerminals(folderPath);
+        if (!detected) {
+            return undefined;
+        }
+        if (detected.length > 0) {
+            return {
+                version: '1.0',
+                terminals: detected
+            };
+        }
+
         const name = await vscode.window.showInputBox({
             prompt: 'Enter terminal name',
             placeHolder: 'e.g., Development Server'
@@ -260,7 +300,7 @@ export class ConfigInitializer {
         return config;
     }
 
-    private async advancedSetup(): Promise<TerminalLauncherConfig | undefined> {
+    private async advancedSetup(folderPath: string): Promise<TerminalLauncherConfig | undefined> {
         const groupName = await vscode.window.showInputBox({
             prompt: 'Enter group name',
             placeHolder: 'e.g., Full Stack Development'
@@ -270,8 +310,13 @@ export class ConfigInitializer {
             return undefined;
         }
 
-        const terminals = [];
-        let addMore = true;
+        const detected = await this.pickDetectedTerminals(folderPath);
+        if (!detected) {
+            return undefined;
+        }
+
+        const terminals: TerminalConfig[] = [...detected];
+        let addMore = terminals.length === 0 || await this.askToAddMore(terminals.length);
 
         while (addMore) {
             const terminalNumber = terminals.length + 1;
@@ -311,14 +356,7 @@ export class ConfigInitializer {
                 ...(command && command.trim() && { command: command.trim() })
             });
 
-            const continueAdding = await vscode.window.showQuickPick([
-                { label: '➕ Add Another Terminal', value: true },
-                { label: '✅ Finish Setup', value: false }
-            ], {
-                placeHolder: `Added ${terminals.length} terminal${terminals.length > 1 ? 's' : ''}. What next?`
-            });
-
-            addMore = continueAdding?.value ?? false;
+            addMore = await this.askToAddMore(terminals.length);
         }
 
         if (terminals.length === 0) {
@@ -336,6 +374,17 @@ export class ConfigInitializer {
         return config;
     }
 
+    private async askToAddMore(count: number): Promise<boolean> {
+        const continueAdding = await vscode.window.showQuickPick([
+            { label: '➕ Add Another Terminal', value: true },
+            { label: '✅ Finish Setup', value: false }
+        ], {
+            placeHolder: `Added ${count} terminal${count > 1 ? 's' : ''}. What next?`
+        });
+
+        return continueAdding?.value ?? false;
+    }
+
     private createExampleTemplate(): TerminalLauncherConfig {
         return {
             version: '1.0',
@@ -383,10 +432,12 @@ export class ConfigInitializer {
 
     private async saveConfig(targetFolder: { uri: vscode.Uri, name: string }, config: TerminalLauncherConfig): Promise<void> {
         const configPath = path.join(targetFolder.uri.fsPath, '.terminal.json');
-        const configContent = JSON.stringify(config, null, 2);
+        const configContent = this.configWriter.serialize(config, 'json');
 
         try {
-            fs.writeFileSync(configPath, configContent, 'utf8');
+            if (!await this.configWriter.writeFile(configPath, configContent)) {
+                return;
+            }
             
             const openFile = await vscode.window.showInformationMessage(
                 `Terminal configuration created at ${configPath}`,
@@ -1,7 +1,11 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { TerminalLauncherConfig } from './types';
+import * as jsonc from 'jsonc-parser';
+import { IniConfigParser } from './iniConfigParser';
+import { COMPOSE_FILE_NAMES, PROCFILE_NAMES, ProcessFileParser } from './processFileParser';
+import { YamlConfigParser } from './yamlConfigParser';
+import { EnvFile, HOOK_NAMES, TerminalConfig, TerminalGroupConfig, TerminalLauncherConfig } from './types';
 
 export interface ConfigLocation {
     path: string;
@@ -9,8 +13,47 @@ export interface ConfigLocation {
     projectName: string;
 }
 
+export type ConfigPath = (string | number)[];
+
+export type ConfigFormat = 'json' | 'yaml' | 'ini';
+
+// Formats that can be read but are owned by other tools, so they are never written
+export type SourceFormat = ConfigFormat | 'procfile' | 'compose';
+
+export interface SourceRange {
+    offset: number;
+    length: number;
+}
+
+export interface ConfigSyntaxError {
+    message: string;
+    range: SourceRange;
+}
+
+export interface ConfigLoadError {
+    message: string;
+    // Where in the loaded file the problem comes from (its extends/include entry); empty for its own syntax errors
+    at: ConfigPath;
+}
+
+export interface LoadedConfig {
+    config: TerminalLauncherConfig;
+    errors: ConfigLoadError[];
+}
+
+export interface ParsedConfigSource {
+    config: TerminalLauncherConfig;
+    content: string;
+    errors: ConfigSyntaxError[];
+    // Maps a property path (e.g. ['groups', 0, 'terminals', 1, 'cwd']) back to its place in the file
+    locate(configPath: ConfigPath, target?: 'key' | 'value'): SourceRange | undefined;
+}
+
 export class ConfigParser {
     private configFileName: string;
+    private iniParser = new IniConfigParser();
+    private yamlParser = new YamlConfigParser();
+    private processFileParser = new ProcessFileParser();
 
     constructor() {
         this.configFileName = vscode.workspace.getConfiguration('terminalLauncher').get('configFileName', '.terminal');
@@ -24,11 +67,8 @@ export class ConfigParser {
         }
 
         // Use VS Code's file search API for better reliability
-        // Search for .terminal and .terminal.json files anywhere in the workspace
-        const patterns = [
-            `**/${this.configFileName}`,
-            `**/${this.configFileName}.json`
-        ];
+        // Search for .terminal, .terminal.json and .terminal.yaml/.yml files anywhere in the workspace
+        const patterns = this.getConfigFileNames().map(fileName => `**/${fileName}`);
         const excludePattern = '{**/node_modules/**,**/.git/**,**/dist/**,**/build/**}';
         
         try {
@@ -72,21 +112,66 @@ export class ConfigParser {
             }
         }
         
-        return configs;
+        return this.dropShadowedConfigs(configs);
+    }
+
+    // In order of precedence when a folder has more than one
+    private getConfigFileNames(): string[] {
+        const names = ['.json', '.yaml', '.yml', ''].map(extension => this.configFileName + extension);
+        // Procfiles and compose files only count in folders without a config of their own
+        if (vscode.workspace.getConfiguration('terminalLauncher').get<boolean>('processFiles', false)) {
+            names.push(...PROCFILE_NAMES, ...COMPOSE_FILE_NAMES);
+        }
+        return names;
+    }
+
+    // Procfiles and compose files anywhere in the workspace, whether or not they are used as configs
+    async findProcessFiles(): Promise<ConfigLocation[]> {
+        const files = await vscode.workspace.findFiles(
+            `**/{${[...PROCFILE_NAMES, ...COMPOSE_FILE_NAMES].join(',')}}`,
+            '{**/node_modules/**,**/.git/**,**/dist/**,**/build/**}',
+            100
+        );
+
+        return files.flatMap(file => {
+            const folder = vscode.workspace.getWorkspaceFolder(file);
+            return folder ? [{ path: file.fsPath, folder, projectName: path.basename(path.dirname(file.fsPath)) }] : [];
+        });
+    }
+
+    // Where a config converted to another format is written
+    getConvertedPath(configPath: string, format: ConfigFormat): string {
+        // Imported Procfiles and compose files become a regular config next to them;
+        // the plain config file may hold JSON, in which case it becomes the simple format in place
+        const basePath = ProcessFileParser.isProcessFile(configPath)
+            ? path.join(path.dirname(configPath), this.configFileName)
+            : configPath.replace(/\.(json|ya?ml)$/, '');
+        switch (format) {
+            case 'json':
+                return `${basePath}.json`;
+            case 'yaml':
+                return configPath.endsWith('.yml') && !ProcessFileParser.isProcessFile(configPath) ? configPath : `${basePath}.yaml`;
+            default:
+                return basePath;
+        }
+    }
+
+    // Only one config per folder is used; the others are shadowed by it
+    private dropShadowedConfigs(configs: ConfigLocation[]): ConfigLocation[] {
+        const names = this.getConfigFileNames();
+        const rank = (config: ConfigLocation) => names.indexOf(path.basename(config.path));
+        return configs.filter(config => !configs.some(other =>
+            path.dirname(other.path) === path.dirname(config.path) && rank(other) < rank(config)
+        ));
     }
 
     private async findConfigInFolder(folderPath: string, workspaceFolder: vscode.WorkspaceFolder): Promise<ConfigLocation[]> {
         const configs: ConfigLocation[] = [];
-        const configPath = path.join(folderPath, this.configFileName);
-        const jsonConfigPath = configPath + '.json';
+        const configPath = this.getConfigFileNames()
+            .map(fileName => path.join(folderPath, fileName))
+            .find(candidate => fs.existsSync(candidate));
         
-        if (fs.existsSync(jsonConfigPath)) {
-            configs.push({
-                path: jsonConfigPath,
-                folder: workspaceFolder,
-                projectName: path.basename(folderPath)
-            });
-        } else if (fs.existsSync(configPath)) {
+        if (configPath) {
             configs.push({
                 path: configPath,
                 folder: workspaceFolder,
@@ -97,6 +182,10 @@ export class ConfigParser {
         return configs;
     }
 
+    isConfigFile(filePath: string): boolean {
+        return this.getConfigFileNames().includes(path.basename(filePath));
+    }
+
     async findConfigFile(): Promise<string | undefined> {
         const configs = await this.findAllConfigFiles();
         return configs.length > 0 ? configs[0].path : undefined;
@@ -104,67 +193,283 @@ export class ConfigParser {
 
     async parseConfig(configPath: string): Promise<TerminalLauncherConfig | undefined> {
         try {
-            const content = fs.readFileSync(configPath, 'utf8');
-            
-            // Try to parse as JSON
-            try {
-                return JSON.parse(content) as TerminalLauncherConfig;
-            } catch (jsonError) {
-                // If JSON parsing fails, try to parse as custom format
-                return this.parseCustomFormat(content);
-            }
+            // Problems with extended or included files are reported as diagnostics by the validator
+            return this.loadConfig(configPath).config;
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to read config file: ${error}`);
             return undefined;
         }
     }
 
-    private parseCustomFormat(content: string): TerminalLauncherConfig {
-        const lines = content.split('\n').filter(line => line.trim() && !line.trim().startsWith('#'));
-        const config: TerminalLauncherConfig = { terminals: [] };
-        
-        let currentTerminal: any = null;
-        
-        for (const line of lines) {
-            const trimmed = line.trim();
-            
-            if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
-                if (currentTerminal) {
-                    config.terminals!.push(currentTerminal);
+    // Loads a config together with everything it extends or includes, merged into one config
+    loadConfig(configPath: string, content?: string): LoadedConfig {
+        const errors: ConfigLoadError[] = [];
+        const config = this.loadWithIncludes(configPath, content ?? fs.readFileSync(configPath, 'utf8'), [], errors, []);
+        return { config, errors };
+    }
+
+    private loadWithIncludes(
+        configPath: string,
+        content: string,
+        stack: string[],
+        errors: ConfigLoadError[],
+        blame: ConfigPath
+    ): TerminalLauncherConfig {
+        const source = this.parseConfigSource(configPath, content);
+        const own = source.config;
+        const isRoot = stack.length === 0;
+        const chain = [...stack, configPath];
+        const prefix = isRoot ? '' : `${path.basename(configPath)}: `;
+
+        // A file with syntax errors parses to a partial config, which must not pass for the whole one
+        if (source.errors.length > 0) {
+            errors.push({ message: `${prefix}${source.errors[0].message}`, at: blame });
+        }
+
+        // extends is the base, includes are layered on top of it in order, and the file itself comes last
+        const references: { file: unknown, at: ConfigPath }[] = [
+            ...(own.extends !== undefined ? [{ file: own.extends, at: ['extends'] }] : []),
+            ...(Array.isArray(own.include) ? own.include.map((file, index) => ({ file, at: ['include', index] })) : [])
+        ];
+
+        let merged: TerminalLauncherConfig = {};
+        for (const reference of references) {
+            if (typeof reference.file !== 'string') {
+                continue;
+            }
+
+            const at = isRoot ? reference.at : blame;
+            const referencedPath = this.resolveReference(reference.file, configPath);
+            if (!referencedPath) {
+                errors.push({ message: `${prefix}Config file not found: ${reference.file}`, at });
+                continue;
+            }
+            if (chain.includes(referencedPath)) {
+                const cycle = [...chain.slice(chain.indexOf(referencedPath)), referencedPath];
+                errors.push({ message: `${prefix}Include cycle: ${cycle.map(file => path.basename(file)).join(' → ')}`, at });
+                continue;
+            }
+
+            try {
+                const referenced = this.loadWithIncludes(referencedPath, fs.readFileSync(referencedPath, 'utf8'), chain, errors, at);
+                merged = this.mergeConfigs(merged, referenced);
+            } catch (error) {
+                errors.push({ message: `${prefix}Failed to read ${reference.file}: ${error}`, at });
+            }
+        }
+
+        const result = this.mergeConfigs(merged, isRoot ? own : this.bindConfigDir(own, path.dirname(configPath)));
+        delete result.extends;
+        delete result.include;
+        return result;
+    }
+
+    // Relative to the referencing file; bare file names fall back to the workspace root
+    private resolveReference(reference: string, fromConfigPath: string): string | undefined {
+        const candidates = [path.resolve(path.dirname(fromConfigPath), reference)];
+        if (!path.isAbsolute(reference) && !reference.startsWith('.')) {
+            const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fromConfigPath))
+                || vscode.workspace.workspaceFolders?.[0];
+            if (folder) {
+                candidates.push(path.join(folder.uri.fsPath, reference));
+            }
+        }
+        return candidates.find(candidate => fs.existsSync(candidate));
+    }
+
+    // ${configDir} means the file a terminal was defined in, which is only known while loading
+    private bindConfigDir(config: TerminalLauncherConfig, configDir: string): TerminalLauncherConfig {
+        const bind = (value: string) => value.split('${configDir}').join(configDir);
+        const bindEnvFiles = <T extends TerminalLauncherConfig | TerminalGroupConfig | TerminalConfig>(owner: T): T => {
+            const bindFile = (file: EnvFile) => typeof file === 'string' ? bind(file)
+                : file && typeof file === 'object' && typeof file.path === 'string' ? { ...file, path: bind(file.path) }
+                : file;
+            return {
+                ...owner,
+                ...(owner.envFile !== undefined && { envFile: Array.isArray(owner.envFile) ? owner.envFile.map(bindFile) : bindFile(owner.envFile) })
+            };
+        };
+        const bindTerminal = (terminal: TerminalConfig): TerminalConfig => {
+            const bound: TerminalConfig = bindEnvFiles(terminal);
+            for (const key of ['cwd', 'command', 'script', 'shellPath', 'stopCommand'] as const) {
+                if (typeof terminal[key] === 'string') {
+                    bound[key] = bind(terminal[key]!);
                 }
-                currentTerminal = { name: trimmed.slice(1, -1) };
-            } else if (currentTerminal && trimmed.includes('=')) {
-                const [key, ...valueParts] = trimmed.split('=');
-                const value = valueParts.join('=').trim();
-                
-                switch (key.trim()) {
-                    case 'cwd':
-                        currentTerminal.cwd = value;
-                        break;
-                    case 'command':
-                        currentTerminal.command = value;
-                        break;
-                    case 'commands':
-                        // Split by semicolon and trim each command
-                        currentTerminal.commands = value.split(';').map(cmd => cmd.trim());
-                        break;
-                    case 'script':
-                        currentTerminal.script = value;
-                        break;
-                    case 'color':
-                        currentTerminal.color = value;
-                        break;
-                    case 'icon':
-                        currentTerminal.icon = value;
-                        break;
+            }
+            for (const key of ['commands', 'shellArgs'] as const) {
+                if (Array.isArray(terminal[key])) {
+                    bound[key] = terminal[key]!.map(value => typeof value === 'string' ? bind(value) : value);
+                }
+            }
+            if (terminal.env && typeof terminal.env === 'object') {
+                bound.env = Object.fromEntries(Object.entries(terminal.env).map(([name, value]) =>
+                    [name, typeof value === 'string' ? bind(value) : value]
+                ));
+            }
+            if (terminal.healthCheck && typeof terminal.healthCheck.command === 'string') {
+                bound.healthCheck = { ...terminal.healthCheck, command: bind(terminal.healthCheck.command) };
+            }
+            return bound;
+        };
+        const bindHooks = <T extends TerminalLauncherConfig | TerminalGroupConfig>(owner: T): T => {
+            const bound = bindEnvFiles(owner);
+            for (const name of HOOK_NAMES) {
+                const hook = owner[name];
+                if (typeof hook === 'string') {
+                    bound[name] = bind(hook);
+                } else if (hook && typeof hook === 'object') {
+                    bound[name] = {
+                        ...hook,
+                        ...(typeof hook.command === 'string' && { command: bind(hook.command) }),
+                        ...(typeof hook.cwd === 'string' && { cwd: bind(hook.cwd) }),
+                        ...(hook.env && typeof hook.env === 'object' && {
+                            env: Object.fromEntries(Object.entries(hook.env).map(([key, value]) =>
+                                [key, typeof value === 'string' ? bind(value) : value]
+                            ))
+                        })
+                    };
                 }
             }
+            return bound;
+        };
+
+        return {
+            ...bindHooks(config),
+            groups: Array.isArray(config.groups)
+                ? config.groups.map(group => ({ ...bindHooks(group), terminals: Array.isArray(group.terminals) ? group.terminals.map(bindTerminal) : group.terminals }))
+                : config.groups,
+            terminals: Array.isArray(config.terminals) ? config.terminals.map(bindTerminal) : config.terminals
+        };
+    }
+
+    private mergeConfigs(base: TerminalLauncherConfig, override: TerminalLauncherConfig): TerminalLauncherConfig {
+        const merged: TerminalLauncherConfig = { ...base, ...override };
+
+        merged.groups = this.mergeByKey(base.groups, override.groups, group => group.name, (baseGroup, overrideGroup): TerminalGroupConfig => ({
+            ...baseGroup,
+            ...overrideGroup,
+            terminals: this.mergeByKey(baseGroup.terminals, overrideGroup.terminals, terminal => terminal.name, this.mergeTerminals) || []
+        }));
+        merged.terminals = this.mergeByKey(base.terminals, override.terminals, terminal => terminal.name, this.mergeTerminals);
+        merged.inputs = this.mergeByKey(base.inputs, override.inputs, input => input.id, (_, input) => input);
+        merged.profiles = this.mergeByKey(base.profiles, override.profiles, profile => profile.name, (_, profile) => profile);
+
+        for (const key of ['groups', 'terminals', 'inputs', 'profiles'] as const) {
+            if (merged[key] === undefined) {
+                delete merged[key];
+            }
         }
-        
-        if (currentTerminal) {
-            config.terminals!.push(currentTerminal);
+        return merged;
+    }
+
+    private mergeTerminals(base: TerminalConfig, override: TerminalConfig): TerminalConfig {
+        const merged: TerminalConfig = { ...base, ...override };
+
+        // Overriding any of script/commands/command replaces what the terminal runs as a whole
+        if (override.script !== undefined || override.commands !== undefined || override.command !== undefined) {
+            merged.script = override.script;
+            merged.commands = override.commands;
+            merged.command = override.command;
+            for (const key of ['script', 'commands', 'command'] as const) {
+                if (merged[key] === undefined) {
+                    delete merged[key];
+                }
+            }
         }
-        
-        return config;
+
+        if (base.env || override.env) {
+            merged.env = { ...base.env, ...override.env };
+        }
+        return merged;
+    }
+
+    // Entries with the same key are merged in place; new entries are appended. Entries without a key are never matched.
+    private mergeByKey<T>(
+        base: T[] | undefined,
+        override: T[] | undefined,
+        getKey: (item: T) => string | undefined,
+        merge: (base: T, override: T) => T
+    ): T[] | undefined {
+        if (!Array.isArray(base)) {
+            return override;
+        }
+        if (!Array.isArray(override)) {
+            return base;
+        }
+
+        const result = [...base];
+        for (const item of override) {
+            const key = item && typeof item === 'object' ? getKey(item) : undefined;
+            const index = key === undefined ? -1 : result.findIndex(existing => existing && typeof existing === 'object' && getKey(existing) === key);
+            if (index === -1) {
+                result.push(item);
+            } else {
+                result[index] = merge(result[index], item);
+            }
+        }
+        return result;
+    }
+
+    // The file name decides; the plain config file may hold JSON or the simple format
+    getFormat(configPath: string, content: string): SourceFormat {
+        if (ProcessFileParser.isProcessFile(configPath)) {
+            return ProcessFileParser.isComposeFile(configPath) ? 'compose' : 'procfile';
+        }
+        if (configPath.endsWith('.yaml') || configPath.endsWith('.yml')) {
+            return 'yaml';
+        }
+        return configPath.endsWith('.json') || content.trimStart().startsWith('{') ? 'json' : 'ini';
+    }
+
+    parseConfigSource(configPath: string, content: string): ParsedConfigSource {
+        switch (this.getFormat(configPath, content)) {
+            case 'json':
+                return this.parseJsonFormat(content);
+            case 'yaml':
+                return this.yamlParser.parse(content);
+            case 'procfile':
+            case 'compose':
+                return this.processFileParser.parse(configPath, content);
+            default:
+                return this.iniParser.parse(content);
+        }
+    }
+
+    private parseJsonFormat(content: string): ParsedConfigSource {
+        const parseErrors: jsonc.ParseError[] = [];
+        const tree = jsonc.parseTree(content, parseErrors, { allowTrailingComma: false, disallowComments: true });
+        const errors: ConfigSyntaxError[] = parseErrors
+            // The parser often reports several follow-up errors at the same spot; the first is the useful one
+            .filter((error, index) => parseErrors.findIndex(other => other.offset === error.offset) === index)
+            .map(error => ({
+                message: `JSON syntax error: ${jsonc.printParseErrorCode(error.error)}`,
+                range: { offset: error.offset, length: Math.max(error.length, 1) }
+            }));
+
+        let config: TerminalLauncherConfig = {};
+        if (tree && tree.type === 'object') {
+            config = jsonc.getNodeValue(tree) as TerminalLauncherConfig;
+        } else if (tree) {
+            errors.push({
+                message: 'Configuration must be a JSON object',
+                range: { offset: tree.offset, length: tree.length }
+            });
+        }
+
+        return {
+            config,
+            content,
+            errors,
+            locate: (configPath, target = 'value') => {
+                const node = tree ? jsonc.findNodeAtLocation(tree, configPath) : undefined;
+                if (!node) {
+                    return undefined;
+                }
+                // For object properties the key node is the first child of the parent property node
+                const keyNode = node.parent?.type === 'property' ? node.parent.children?.[0] : undefined;
+                const located = target === 'key' && keyNode ? keyNode : node;
+                return { offset: located.offset, length: located.length };
+            }
+        };
     }
 }
\ No newline at end of file
@@ -0,0 +1,847 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigParser, ConfigPath, ParsedConfigSource, SourceRange } from './configParser';
+import { DependencyGraph } from './dependencyGraph';
+import { EnvFileLoader } from './envFileLoader';
+import { HOOK_NAMES, MATCHER_SEVERITIES, PLATFORMS, STOP_SIGNALS, TERMINAL_COLORS, TerminalConfig, TerminalLauncherConfig } from './types';
+import { isRecord, isStringArray, listOf } from './typeGuards';
+import { VARIABLE_PATTERN, VariableResolver } from './variableResolver';
+
+export interface ConfigIssue {
+    message: string;
+    severity: 'error' | 'warning';
+    range: SourceRange;
+}
+
+type IssueReporter = (severity: ConfigIssue['severity'], message: string, at: ConfigPath, target?: 'key' | 'value') => void;
+
+// A hook as written, before its options are known to have the right types
+type UncheckedHook = string | Record<string, unknown>;
+
+const ROOT_KEYS = ['version', 'extends', 'include', 'groups', 'terminals', 'inputs', 'profiles', 'envFile', ...HOOK_NAMES];
+const GROUP_KEYS = ['name', 'terminals', 'when', 'envFile', ...HOOK_NAMES];
+const TERMINAL_KEYS = [
+    'name', 'cwd', 'command', 'commands', 'script', 'commandDelay', 'stopOnFailure',
+    'color', 'icon', 'env', 'envFile', 'shellPath', 'shellArgs', 'dependsOn', 'readyWhen', 'healthCheck', 'ports', 'matchers', 'tags',
+    'restart', 'maxRestarts', 'restartDelay', 'stopCommand', 'stopSignal', 'stopGracePeriod', 'log', 'when'
+];
+const PROFILE_KEYS = ['name', 'description', 'terminals', 'groups', 'tags', 'env', 'overrides'];
+const OVERRIDE_KEYS = ['env', 'command', 'commands'];
+const INPUT_KEYS = ['id', 'type', 'description', 'options', 'default', 'password'];
+const READINESS_KEYS = ['port', 'host', 'url', 'outputPattern', 'file', 'timeout', 'interval'];
+const HEALTH_CHECK_KEYS = ['url', 'port', 'host', 'command', 'interval', 'timeout', 'failureThreshold'];
+const HOOK_KEYS = ['command', 'task', 'cwd', 'env'];
+const MATCHER_KEYS = ['pattern', 'severity', 'file', 'line', 'column', 'message', 'clearPattern'];
+const ENV_FILE_KEYS = ['path', 'optional'];
+const WHEN_KEYS = ['platform', 'exists', 'notExists', 'env', 'envSet', 'envUnset', 'branch', 'settings'];
+
+export class ConfigValidator implements vscode.Disposable {
+    private diagnostics: vscode.DiagnosticCollection;
+
+    constructor(private configParser: ConfigParser) {
+        this.diagnostics = vscode.languages.createDiagnosticCollection('terminalLauncher');
+    }
+
+    validateFile(configPath: string): ConfigIssue[] {
+        let content: string;
+        try {
+            content = fs.readFileSync(configPath, 'utf8');
+        } catch (error) {
+            this.clear(configPath);
+            return [];
+        }
+        return this.validateContent(configPath, content);
+    }
+
+    validateContent(configPath: string, content: string): ConfigIssue[] {
+        const source = this.configParser.parseConfigSource(configPath, content);
+        const issues = this.collectIssues(source, configPath);
+
+        this.diagnostics.set(vscode.Uri.file(configPath), issues.map(issue => {
+            const diagnostic = new vscode.Diagnostic(
+                this.toRange(content, issue.range),
+                issue.message,
+                issue.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = 'Terminal Launcher';
+            return diagnostic;
+        }));
+
+        return issues;
+    }
+
+    clear(configPath: string) {
+        this.diagnostics.delete(vscode.Uri.file(configPath));
+    }
+
+    dispose() {
+        this.diagnostics.dispose();
+    }
+
+    private collectIssues(source: ParsedConfigSource, configPath: string): ConfigIssue[] {
+        const baseDir = path.dirname(configPath);
+        const issues: ConfigIssue[] = source.errors.map(error => ({
+            message: error.message,
+            severity: 'error' as const,
+            range: error.range
+        }));
+
+        const report: IssueReporter = (severity, message, at, target = 'value') => {
+            issues.push({ message, severity, range: source.locate(at, target) || { offset: 0, length: 0 } });
+        };
+
+        // Nothing in the file is known to have the type it should have until it is checked here
+        const config = source.config as Record<string, unknown>;
+        const validTerminals: { terminal: TerminalConfig, at: ConfigPath }[] = [];
+        const validHooks: { hook: UncheckedHook, at: ConfigPath }[] = [];
+        const envFiles: { path: string, at: ConfigPath }[] = [];
+        this.checkUnknownKeys(config, ROOT_KEYS, [], report);
+        validHooks.push(...this.validateHooks(config, [], report));
+        envFiles.push(...this.validateEnvFile(config.envFile, ['envFile'], baseDir, report));
+
+        if (config.extends !== undefined && typeof config.extends !== 'string') {
+            report('error', '"extends" must be a string', ['extends']);
+        }
+        if (config.include !== undefined && !isStringArray(config.include)) {
+            report('error', '"include" must be an array of strings', ['include']);
+        }
+
+        // Cross-references may point at terminals, inputs or groups that come from extended or included files
+        let merged: TerminalLauncherConfig = {};
+        try {
+            const loaded = this.configParser.loadConfig(configPath, source.content);
+            merged = loaded.config;
+            // The file's own syntax errors are already reported above, at their exact place
+            loaded.errors.filter(error => error.at.length > 0).forEach(error => report('error', error.message, error.at));
+        } catch (error) {
+            report('error', `Failed to load configuration: ${error}`, []);
+        }
+
+        if (config.groups !== undefined) {
+            if (!Array.isArray(config.groups)) {
+                report('error', '"groups" must be an array', ['groups']);
+            } else {
+                config.groups.forEach((group: unknown, groupIndex: number) => {
+                    const at = ['groups', groupIndex];
+                    if (!isRecord(group)) {
+                        report('error', 'Group must be an object', at);
+                        return;
+                    }
+
+                    this.checkUnknownKeys(group, GROUP_KEYS, at, report);
+                    if (group.name !== undefined && typeof group.name !== 'string') {
+                        report('error', '"name" must be a string', [...at, 'name']);
+                    }
+                    validHooks.push(...this.validateHooks(group, at, report));
+                    envFiles.push(...this.validateEnvFile(group.envFile, [...at, 'envFile'], baseDir, report));
+                    if (group.when !== undefined) {
+                        this.validateWhen(group.when, [...at, 'when'], report);
+                    }
+
+                    if (!Array.isArray(group.terminals) || group.terminals.length === 0) {
+                        const label = typeof group.name === 'string' ? `Group "${group.name}"` : `Group ${groupIndex + 1}`;
+                        report('error', `${label} has no terminals`, group.terminals === undefined ? at : [...at, 'terminals']);
+                        return;
+                    }
+
+                    group.terminals.forEach((terminal: unknown, index: number) => {
+                        if (this.validateTerminal(terminal, [...at, 'terminals', index], baseDir, envFiles, report)) {
+                            validTerminals.push({ terminal, at: [...at, 'terminals', index] });
+                        }
+                    });
+                });
+            }
+        }
+
+        if (config.terminals !== undefined) {
+            if (!Array.isArray(config.terminals)) {
+                report('error', '"terminals" must be an array', ['terminals']);
+            } else {
+                config.terminals.forEach((terminal: unknown, index: number) => {
+                    if (this.validateTerminal(terminal, ['terminals', index], baseDir, envFiles, report)) {
+                        validTerminals.push({ terminal, at: ['terminals', index] });
+                    }
+                });
+            }
+        }
+
+        const mergedTerminals = this.getAllTerminals(merged);
+        const inputIds = this.validateInputs(config.inputs, report);
+        (Array.isArray(merged.inputs) ? merged.inputs : []).forEach(input => inputIds.push(input?.id));
+
+        this.validateDependencies(validTerminals, mergedTerminals, report);
+        this.validateProfiles(config, validTerminals, merged, report);
+        this.validateVariables(validTerminals, validHooks, envFiles, inputIds, report);
+
+        return issues;
+    }
+
+    private validateProfiles(
+        config: Record<string, unknown>,
+        terminals: { terminal: TerminalConfig, at: ConfigPath }[],
+        merged: TerminalLauncherConfig,
+        report: IssueReporter
+    ) {
+        if (config.profiles === undefined) {
+            return;
+        }
+        if (!Array.isArray(config.profiles)) {
+            report('error', '"profiles" must be an array', ['profiles']);
+            return;
+        }
+
+        const allTerminals = [...terminals.map(({ terminal }) => terminal), ...this.getAllTerminals(merged)];
+        const terminalNames = new Set(allTerminals.map(terminal => terminal.name));
+        const groupNames = new Set([...listOf(config.groups), ...listOf(merged.groups)].flatMap(group =>
+            isRecord(group) && typeof group.name === 'string' ? [group.name] : []
+        ));
+        const tags = new Set(allTerminals.flatMap(terminal => Array.isArray(terminal.tags) ? terminal.tags : []));
+        const profileNames: string[] = [];
+
+        config.profiles.forEach((profile: unknown, index: number) => {
+            const at = ['profiles', index];
+            if (!isRecord(profile)) {
+                report('error', 'Profile must be an object', at);
+                return;
+            }
+
+            this.checkUnknownKeys(profile, PROFILE_KEYS, at, report);
+
+            if (typeof profile.name !== 'string' || !profile.name.trim()) {
+                report('error', 'Profile is missing a "name"', profile.name === undefined ? at : [...at, 'name']);
+            } else if (profileNames.includes(profile.name)) {
+                report('error', `Duplicate profile name "${profile.name}"`, [...at, 'name']);
+            } else {
+                profileNames.push(profile.name);
+            }
+
+            if (profile.description !== undefined && typeof profile.description !== 'string') {
+                report('error', '"description" must be a string', [...at, 'description']);
+            }
+
+            const references: [string, Set<string>, string][] = [
+                ['terminals', terminalNames, 'terminal'],
+                ['groups', groupNames, 'group'],
+                ['tags', tags, 'tag']
+            ];
+            for (const [key, known, label] of references) {
+                const values = profile[key];
+                if (values === undefined) {
+                    continue;
+                }
+                if (!isStringArray(values)) {
+                    report('error', `"${key}" must be an array of strings`, [...at, key]);
+                    continue;
+                }
+                values.forEach((value, valueIndex) => {
+                    if (!known.has(value)) {
+                        report('warning', `Profile refers to unknown ${label} "${value}"`, [...at, key, valueIndex]);
+                    }
+                });
+            }
+
+            this.validateEnv(profile.env, [...at, 'env'], report);
+
+            if (profile.overrides !== undefined) {
+                if (!isRecord(profile.overrides)) {
+                    report('error', '"overrides" must be an object keyed by terminal name', [...at, 'overrides']);
+                    return;
+                }
+                for (const [name, override] of Object.entries(profile.overrides)) {
+                    const overrideAt = [...at, 'overrides', name];
+                    if (!terminalNames.has(name)) {
+                        report('warning', `Override for unknown terminal "${name}"`, overrideAt, 'key');
+                    }
+                    if (!isRecord(override)) {
+                        report('error', 'Override must be an object', overrideAt);
+                        continue;
+                    }
+                    this.checkUnknownKeys(override, OVERRIDE_KEYS, overrideAt, report);
+                    this.validateEnv(override.env, [...overrideAt, 'env'], report);
+                    if (override.command !== undefined && typeof override.command !== 'string') {
+                        report('error', '"command" must be a string', [...overrideAt, 'command']);
+                    }
+                    if (override.commands !== undefined && !isStringArray(override.commands)) {
+                        report('error', '"commands" must be an array of strings', [...overrideAt, 'commands']);
+                    }
+                }
+            }
+        });
+    }
+
+    // Returns the hooks that are well-formed enough to check their variables
+    private validateHooks(owner: Record<string, unknown>, at: ConfigPath, report: IssueReporter): { hook: UncheckedHook, at: ConfigPath }[] {
+        const valid: { hook: UncheckedHook, at: ConfigPath }[] = [];
+
+        for (const name of HOOK_NAMES) {
+            const hook = owner[name];
+            const hookAt = [...at, name];
+            if (hook === undefined || typeof hook === 'string') {
+                if (hook !== undefined) {
+                    valid.push({ hook, at: hookAt });
+                }
+                continue;
+            }
+            if (!isRecord(hook)) {
+                report('error', `"${name}" must be a command or an object with "command" or "task"`, hookAt);
+                continue;
+            }
+
+            this.checkUnknownKeys(hook, HOOK_KEYS, hookAt, report);
+            if ((hook.command === undefined) === (hook.task === undefined)) {
+                report('error', `"${name}" needs either "command" or "task"`, hookAt);
+            }
+            for (const key of ['command', 'task', 'cwd']) {
+                if (hook[key] !== undefined && typeof hook[key] !== 'string') {
+                    report('error', `"${key}" must be a string`, [...hookAt, key]);
+                }
+            }
+            this.validateEnv(hook.env, [...hookAt, 'env'], report);
+            valid.push({ hook, at: hookAt });
+        }
+
+        return valid;
+    }
+
+    private validateEnv(env: unknown, at: ConfigPath, report: IssueReporter) {
+        if (env === undefined) {
+            return;
+        }
+        if (!isRecord(env)) {
+            report('error', '"env" must be an object of string values', at);
+            return;
+        }
+        for (const [name, value] of Object.entries(env)) {
+            if (typeof value !== 'string') {
+                report('error', `Environment variable "${name}" must be a string`, [...at, name]);
+            }
+        }
+    }
+
+    // Returns the ids of declared inputs
+    private validateInputs(inputs: unknown, report: IssueReporter): string[] {
+        if (inputs === undefined) {
+            return [];
+        }
+        if (!Array.isArray(inputs)) {
+            report('error', '"inputs" must be an array', ['inputs']);
+            return [];
+        }
+
+        const ids: string[] = [];
+        inputs.forEach((input: unknown, index: number) => {
+            const at = ['inputs', index];
+            if (!isRecord(input)) {
+                report('error', 'Input must be an object', at);
+                return;
+            }
+
+            this.checkUnknownKeys(input, INPUT_KEYS, at, report);
+
+            if (typeof input.id !== 'string' || !input.id) {
+                report('error', 'Input is missing an "id"', input.id === undefined ? at : [...at, 'id']);
+            } else if (ids.includes(input.id)) {
+                report('error', `Duplicate input id "${input.id}"`, [...at, 'id']);
+            } else {
+                ids.push(input.id);
+            }
+
+            if (input.type !== 'pickString' && input.type !== 'promptString') {
+                report('error', '"type" must be "pickString" or "promptString"', input.type === undefined ? at : [...at, 'type']);
+            }
+
+            if (input.options !== undefined && !isStringArray(input.options)) {
+                report('error', '"options" must be an array of strings', [...at, 'options']);
+            } else if (input.type === 'pickString' && (!input.options || input.options.length === 0)) {
+                report('error', 'A "pickString" input needs "options"', at);
+            }
+
+            for (const key of ['description', 'default']) {
+                if (input[key] !== undefined && typeof input[key] !== 'string') {
+                    report('error', `"${key}" must be a string`, [...at, key]);
+                }
+            }
+
+            if (input.password !== undefined && typeof input.password !== 'boolean') {
+                report('error', '"password" must be a boolean', [...at, 'password']);
+            }
+        });
+
+        return ids;
+    }
+
+    private validateVariables(
+        terminals: { terminal: TerminalConfig, at: ConfigPath }[],
+        hooks: { hook: UncheckedHook, at: ConfigPath }[],
+        envFiles: { path: string, at: ConfigPath }[],
+        inputIds: string[],
+        report: IssueReporter
+    ) {
+        const check = (value: unknown, at: ConfigPath) => {
+            if (typeof value !== 'string') {
+                return;
+            }
+            for (const match of value.matchAll(VARIABLE_PATTERN)) {
+                const variable = match[1];
+                if (!VariableResolver.isKnownVariable(variable)) {
+                    report('error', `Unknown variable \${${variable}}`, at);
+                } else if (variable.startsWith('input:') && !inputIds.includes(variable.slice('input:'.length))) {
+                    report('error', `Input "${variable.slice('input:'.length)}" is not declared in "inputs"`, at);
+                }
+            }
+        };
+
+        for (const { terminal, at } of terminals) {
+            for (const key of ['cwd', 'command', 'script', 'shellPath', 'stopCommand'] as const) {
+                check(terminal[key], [...at, key]);
+            }
+            for (const key of ['commands', 'shellArgs'] as const) {
+                const values = terminal[key];
+                if (Array.isArray(values)) {
+                    values.forEach((value, index) => check(value, [...at, key, index]));
+                }
+            }
+            if (isRecord(terminal.healthCheck)) {
+                check(terminal.healthCheck.command, [...at, 'healthCheck', 'command']);
+            }
+            if (isRecord(terminal.env)) {
+                for (const [name, value] of Object.entries(terminal.env)) {
+                    check(value, [...at, 'env', name]);
+                }
+            }
+        }
+
+        for (const { path: envFile, at } of envFiles) {
+            check(envFile, at);
+        }
+
+        for (const { hook, at } of hooks) {
+            if (typeof hook === 'string') {
+                check(hook, at);
+                continue;
+            }
+            check(hook.command, [...at, 'command']);
+            check(hook.cwd, [...at, 'cwd']);
+            if (isRecord(hook.env)) {
+                for (const [name, value] of Object.entries(hook.env)) {
+                    check(value, [...at, 'env', name]);
+                }
+            }
+        }
+    }
+
+    private validateDependencies(
+        terminals: { terminal: TerminalConfig, at: ConfigPath }[],
+        mergedTerminals: TerminalConfig[],
+        report: IssueReporter
+    ) {
+        const names = new Set([...terminals.map(({ terminal }) => terminal.name), ...mergedTerminals.map(terminal => terminal.name)]);
+        for (const { terminal, at } of terminals) {
+            (terminal.dependsOn || []).forEach((dependency, index) => {
+                if (dependency === terminal.name) {
+                    report('error', `Terminal "${terminal.name}" cannot depend on itself`, [...at, 'dependsOn', index]);
+                } else if (!names.has(dependency)) {
+                    report('error', `Unknown dependency "${dependency}"`, [...at, 'dependsOn', index]);
+                }
+            });
+        }
+
+        const graphTerminals = mergedTerminals.length > 0 ? mergedTerminals : terminals.map(({ terminal }) => terminal);
+        const cycle = new DependencyGraph(graphTerminals).findCycle();
+        if (cycle && cycle.length > 2) {
+            // Point at a terminal of this file when the cycle runs through one, otherwise at the whole file
+            const local = terminals.find(({ terminal }) => cycle.includes(terminal.name) && terminal.dependsOn);
+            report('error', `Dependency cycle detected: ${cycle.join(' → ')}`, local ? [...local.at, 'dependsOn'] : []);
+        }
+    }
+
+    // Terminals of a merged config that are well-formed enough for cross-reference checks
+    private getAllTerminals(config: TerminalLauncherConfig): TerminalConfig[] {
+        const groups = Array.isArray(config.groups) ? config.groups : [];
+        const terminals = [
+            ...groups.flatMap(group => Array.isArray(group?.terminals) ? group.terminals : []),
+            ...(Array.isArray(config.terminals) ? config.terminals : [])
+        ];
+        return terminals.filter(terminal => isRecord(terminal)
+            && typeof terminal.name === 'string'
+            && (terminal.dependsOn === undefined || isStringArray(terminal.dependsOn)));
+    }
+
+    // Returns whether the terminal is well-formed enough to take part in cross-terminal checks
+    private validateTerminal(
+        terminal: unknown,
+        at: ConfigPath,
+        baseDir: string,
+        envFiles: { path: string, at: ConfigPath }[],
+        report: IssueReporter
+    ): terminal is TerminalConfig {
+        if (!isRecord(terminal)) {
+            report('error', 'Terminal must be an object', at);
+            return false;
+        }
+
+        this.checkUnknownKeys(terminal, TERMINAL_KEYS, at, report);
+
+        if (typeof terminal.name !== 'string' || !terminal.name.trim()) {
+            report('error', 'Terminal is missing a "name"', terminal.name === undefined ? at : [...at, 'name']);
+        }
+
+        for (const key of ['cwd', 'command', 'script', 'icon', 'shellPath', 'stopCommand']) {
+            if (terminal[key] !== undefined && typeof terminal[key] !== 'string') {
+                report('error', `"${key}" must be a string`, [...at, key]);
+            }
+        }
+
+        for (const key of ['commands', 'shellArgs', 'dependsOn', 'tags']) {
+            const value = terminal[key];
+            if (value !== undefined && !isStringArray(value)) {
+                report('error', `"${key}" must be an array of strings`, [...at, key]);
+            }
+        }
+
+        if (terminal.ports !== undefined && (!Array.isArray(terminal.ports) || !terminal.ports.every(port => this.isPort(port)))) {
+            report('error', '"ports" must be an array of port numbers between 1 and 65535', [...at, 'ports']);
+        }
+
+        if (terminal.commandDelay !== undefined && (typeof terminal.commandDelay !== 'number' || terminal.commandDelay < 0)) {
+            report('error', '"commandDelay" must be a non-negative number', [...at, 'commandDelay']);
+        }
+
+        if (terminal.restart !== undefined && !this.isOneOf(terminal.restart, ['never', 'on-failure', 'always'])) {
+            report('error', '"restart" must be one of: never, on-failure, always', [...at, 'restart']);
+        }
+
+        if (terminal.maxRestarts !== undefined && !this.isIntegerFrom(terminal.maxRestarts, 0)) {
+            report('error', '"maxRestarts" must be a non-negative integer', [...at, 'maxRestarts']);
+        }
+
+        if (terminal.restartDelay !== undefined && (typeof terminal.restartDelay !== 'number' || terminal.restartDelay < 0)) {
+            report('error', '"restartDelay" must be a non-negative number', [...at, 'restartDelay']);
+        }
+
+        if (terminal.stopSignal !== undefined && !this.isOneOf(terminal.stopSignal, STOP_SIGNALS)) {
+            report('error', `"stopSignal" must be one of: ${STOP_SIGNALS.join(', ')}`, [...at, 'stopSignal']);
+        }
+
+        if (terminal.stopGracePeriod !== undefined && (typeof terminal.stopGracePeriod !== 'number' || terminal.stopGracePeriod < 0)) {
+            report('error', '"stopGracePeriod" must be a non-negative number', [...at, 'stopGracePeriod']);
+        }
+
+        for (const key of ['stopOnFailure', 'log']) {
+            if (terminal[key] !== undefined && typeof terminal[key] !== 'boolean') {
+                report('error', `"${key}" must be a boolean`, [...at, key]);
+            }
+        }
+
+        this.validateEnv(terminal.env, [...at, 'env'], report);
+        envFiles.push(...this.validateEnvFile(terminal.envFile, [...at, 'envFile'], baseDir, report));
+
+        if (terminal.color !== undefined && !this.isOneOf(terminal.color, TERMINAL_COLORS)) {
+            report('error', `Invalid color "${terminal.color}". Expected one of: ${TERMINAL_COLORS.join(', ')}`, [...at, 'color']);
+        }
+
+        // Resolve paths the same way TerminalManager does when launching.
+        // Paths with ${...} variables are only known at launch time, so they are not checked here.
+        let cwd = baseDir;
+        if (typeof terminal.cwd === 'string' && this.hasVariables(terminal.cwd)) {
+            cwd = '';
+        } else if (typeof terminal.cwd === 'string') {
+            cwd = path.isAbsolute(terminal.cwd) ? terminal.cwd : path.join(baseDir, terminal.cwd);
+            if (!this.isDirectory(cwd)) {
+                report('error', `Working directory does not exist: ${cwd}`, [...at, 'cwd']);
+            }
+        }
+
+        if (typeof terminal.script === 'string' && cwd && !this.hasVariables(terminal.script)) {
+            const scriptPath = path.isAbsolute(terminal.script) ? terminal.script : path.join(cwd, terminal.script);
+            if (!fs.existsSync(scriptPath)) {
+                report('error', `Script does not exist: ${scriptPath}`, [...at, 'script']);
+            }
+        }
+
+        if (terminal.readyWhen !== undefined) {
+            this.validateReadiness(terminal.readyWhen, [...at, 'readyWhen'], report);
+        }
+
+        if (terminal.healthCheck !== undefined) {
+            this.validateHealthCheck(terminal.healthCheck, [...at, 'healthCheck'], report);
+        }
+
+        if (terminal.matchers !== undefined) {
+            this.validateMatchers(terminal.matchers, [...at, 'matchers'], report);
+        }
+
+        if (terminal.when !== undefined) {
+            this.validateWhen(terminal.when, [...at, 'when'], report);
+        }
+
+        return typeof terminal.name === 'string' && (terminal.dependsOn === undefined || isStringArray(terminal.dependsOn));
+    }
+
+    private validateReadiness(readiness: unknown, at: ConfigPath, report: IssueReporter) {
+        if (!isRecord(readiness)) {
+            report('error', '"readyWhen" must be an object', at);
+            return;
+        }
+
+        this.checkUnknownKeys(readiness, READINESS_KEYS, at, report);
+
+        if (['port', 'url', 'outputPattern', 'file'].every(key => readiness[key] === undefined)) {
+            report('error', '"readyWhen" needs at least one of "port", "url", "outputPattern" or "file"', at);
+        }
+
+        if (readiness.port !== undefined && !this.isPort(readiness.port)) {
+            report('error', '"port" must be a port number between 1 and 65535', [...at, 'port']);
+        }
+
+        for (const key of ['host', 'url', 'outputPattern', 'file']) {
+            if (readiness[key] !== undefined && typeof readiness[key] !== 'string') {
+                report('error', `"${key}" must be a string`, [...at, key]);
+            }
+        }
+
+        if (typeof readiness.url === 'string' && !/^https?:\/\//.test(readiness.url)) {
+            report('error', '"url" must start with http:// or https://', [...at, 'url']);
+        }
+
+        if (typeof readiness.outputPattern === 'string') {
+            try {
+                new RegExp(readiness.outputPattern);
+            } catch (error) {
+                report('error', error instanceof Error ? error.message : `Invalid regular expression: ${error}`, [...at, 'outputPattern']);
+            }
+        }
+
+        for (const key of ['timeout', 'interval']) {
+            const value = readiness[key];
+            if (value !== undefined && (typeof value !== 'number' || value <= 0)) {
+                report('error', `"${key}" must be a positive number of milliseconds`, [...at, key]);
+            }
+        }
+    }
+
+    private validateHealthCheck(healthCheck: unknown, at: ConfigPath, report: IssueReporter) {
+        if (!isRecord(healthCheck)) {
+            report('error', '"healthCheck" must be an object', at);
+            return;
+        }
+
+        this.checkUnknownKeys(healthCheck, HEALTH_CHECK_KEYS, at, report);
+
+        if (['url', 'port', 'command'].every(key => healthCheck[key] === undefined)) {
+            report('error', '"healthCheck" needs at least one of "url", "port" or "command"', at);
+        }
+
+        if (healthCheck.port !== undefined && !this.isPort(healthCheck.port)) {
+            report('error', '"port" must be a port number between 1 and 65535', [...at, 'port']);
+        }
+
+        for (const key of ['url', 'host', 'command']) {
+            if (healthCheck[key] !== undefined && typeof healthCheck[key] !== 'string') {
+                report('error', `"${key}" must be a string`, [...at, key]);
+            }
+        }
+
+        if (typeof healthCheck.url === 'string' && !/^https?:\/\//.test(healthCheck.url)) {
+            report('error', '"url" must start with http:// or https://', [...at, 'url']);
+        }
+
+        for (const key of ['interval', 'timeout']) {
+            const value = healthCheck[key];
+            if (value !== undefined && (typeof value !== 'number' || value <= 0)) {
+                report('error', `"${key}" must be a positive number of milliseconds`, [...at, key]);
+            }
+        }
+
+        if (healthCheck.failureThreshold !== undefined && !this.isIntegerFrom(healthCheck.failureThreshold, 1)) {
+            report('error', '"failureThreshold" must be a positive integer', [...at, 'failureThreshold']);
+        }
+    }
+
+    private validateMatchers(matchers: unknown, at: ConfigPath, report: IssueReporter) {
+        if (!Array.isArray(matchers)) {
+            report('error', '"matchers" must be an array', at);
+            return;
+        }
+
+        matchers.forEach((matcher: unknown, index: number) => {
+            const matcherAt = [...at, index];
+            if (!isRecord(matcher)) {
+                report('error', 'Output matcher must be an object', matcherAt);
+                return;
+            }
+
+            this.checkUnknownKeys(matcher, MATCHER_KEYS, matcherAt, report);
+            if (typeof matcher.pattern !== 'string') {
+                report('error', 'Output matcher needs a "pattern" string', matcher.pattern === undefined ? matcherAt : [...matcherAt, 'pattern']);
+            }
+            if (matcher.clearPattern !== undefined && typeof matcher.clearPattern !== 'string') {
+                report('error', '"clearPattern" must be a string', [...matcherAt, 'clearPattern']);
+            }
+
+            let groups: number | undefined;
+            for (const key of ['pattern', 'clearPattern']) {
+                const source = matcher[key];
+                if (typeof source !== 'string') {
+                    continue;
+                }
+                try {
+                    const expression = new RegExp(source);
+                    if (key === 'pattern') {
+                        // An empty alternative matches everything, which exposes the number of capture groups
+                        groups = new RegExp(`${expression.source}|`).exec('')!.length - 1;
+                    }
+                } catch (error) {
+                    report('error', error instanceof Error ? error.message : `Invalid regular expression: ${error}`, [...matcherAt, key]);
+                }
+            }
+
+            if (matcher.severity !== undefined && !this.isOneOf(matcher.severity, MATCHER_SEVERITIES)) {
+                report('error', `"severity" must be one of: ${MATCHER_SEVERITIES.join(', ')}`, [...matcherAt, 'severity']);
+            }
+
+            for (const key of ['file', 'line', 'column', 'message']) {
+                const group = matcher[key];
+                if (group === undefined) {
+                    continue;
+                }
+                if (typeof group !== 'number' || !this.isIntegerFrom(group, 0)) {
+                    report('error', `"${key}" must be the number of a capture group in "pattern"`, [...matcherAt, key]);
+                } else if (groups !== undefined && group > groups) {
+                    report('error', `"pattern" has no capture group ${group}`, [...matcherAt, key]);
+                }
+            }
+        });
+    }
+
+    // Returns the file paths so their variables can be checked along with the rest
+    private validateEnvFile(envFile: unknown, at: ConfigPath, baseDir: string, report: IssueReporter): { path: string, at: ConfigPath }[] {
+        if (envFile === undefined) {
+            return [];
+        }
+
+        const paths: { path: string, at: ConfigPath }[] = [];
+        const entries: { file: unknown, at: ConfigPath }[] = Array.isArray(envFile)
+            ? envFile.map((file: unknown, index) => ({ file, at: [...at, index] }))
+            : [{ file: envFile, at }];
+        for (const { file, at: fileAt } of entries) {
+            if (isRecord(file)) {
+                this.checkUnknownKeys(file, ENV_FILE_KEYS, fileAt, report);
+                if (file.optional !== undefined && typeof file.optional !== 'boolean') {
+                    report('error', '"optional" must be a boolean', [...fileAt, 'optional']);
+                }
+            }
+
+            const filePath = typeof file === 'string' ? file : isRecord(file) ? file.path : undefined;
+            const pathAt = typeof file === 'string' ? fileAt : [...fileAt, 'path'];
+            if (typeof filePath !== 'string' || !filePath) {
+                report('error', 'An env file must be a path or an object with a "path"', isRecord(file) ? pathAt : fileAt);
+                continue;
+            }
+            paths.push({ path: filePath, at: pathAt });
+            if (filePath.includes('${input:')) {
+                report('error', 'Env file paths cannot use inputs', pathAt);
+            }
+
+            // Like cwd: paths with ${...} variables are only known at launch time
+            if (this.hasVariables(filePath)) {
+                continue;
+            }
+            const fullPath = path.resolve(baseDir, filePath);
+            if (!fs.existsSync(fullPath)) {
+                if (!isRecord(file) || !file.optional) {
+                    report('error', `Env file does not exist: ${fullPath}`, pathAt);
+                }
+                continue;
+            }
+            try {
+                new EnvFileLoader(baseDir).parse(fs.readFileSync(fullPath, 'utf8'), filePath);
+            } catch (error) {
+                report('error', `Invalid env file: ${error instanceof Error ? error.message : error}`, pathAt);
+            }
+        }
+        return paths;
+    }
+
+    private validateWhen(when: unknown, at: ConfigPath, report: IssueReporter) {
+        if (!isRecord(when)) {
+            report('error', '"when" must be an object', at);
+            return;
+        }
+
+        this.checkUnknownKeys(when, WHEN_KEYS, at, report);
+
+        for (const key of ['platform', 'exists', 'notExists', 'envSet', 'envUnset', 'branch']) {
+            const value = when[key];
+            if (value !== undefined && typeof value !== 'string' && !isStringArray(value)) {
+                report('error', `"${key}" must be a string or an array of strings`, [...at, key]);
+            }
+        }
+
+        const platforms = typeof when.platform === 'string' ? [when.platform] : listOf(when.platform);
+        for (const platform of platforms) {
+            if (typeof platform === 'string' && !this.isOneOf(platform, PLATFORMS)) {
+                report('error', `Invalid platform "${platform}". Expected one of: ${PLATFORMS.join(', ')}`, [...at, 'platform']);
+            }
+        }
+
+        this.validateEnv(when.env, [...at, 'env'], report);
+
+        if (when.settings !== undefined) {
+            if (!isRecord(when.settings)) {
+                report('error', '"settings" must be an object of setting names and values', [...at, 'settings']);
+            } else {
+                for (const [name, value] of Object.entries(when.settings)) {
+                    if (!['string', 'number', 'boolean'].includes(typeof value)) {
+                        report('error', `Setting "${name}" must be compared with a string, number or boolean`, [...at, 'settings', name]);
+                    }
+                }
+            }
+        }
+    }
+
+    private checkUnknownKeys(value: unknown, allowedKeys: string[], at: ConfigPath, report: IssueReporter) {
+        if (!isRecord(value)) {
+            return;
+        }
+
+        for (const key of Object.keys(value)) {
+            if (!allowedKeys.includes(key)) {
+                report('warning', `Unknown property "${key}"`, [...at, key], 'key');
+            }
+        }
+    }
+
+    private hasVariables(value: string): boolean {
+        return new RegExp(VARIABLE_PATTERN.source).test(value);
+    }
+
+    private isOneOf(value: unknown, allowed: readonly string[]): boolean {
+        return typeof value === 'string' && allowed.includes(value);
+    }
+
+    private isIntegerFrom(value: unknown, min: number): boolean {
+        return typeof value === 'number' && Number.isInteger(value) && value >= min;
+    }
+
+    private isPort(value: unknown): boolean {
+        return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 65535;
+    }
+
+    private isDirectory(directoryPath: string): boolean {
+        try {
+            return fs.statSync(directoryPath).isDirectory();
+        } catch (error) {
+            return false;
+        }
+    }
+
+    private toRange(content: string, range: SourceRange): vscode.Range {
+        const positionAt = (offset: number) => {
+            const before = content.slice(0, offset).split('\n');
+            return new vscode.Position(before.length - 1, before[before.length - 1].length);
+        };
+        return new vscode.Range(positionAt(range.offset), positionAt(range.offset + range.length));
+    }
+}
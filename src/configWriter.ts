@@ -0,0 +1,426 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
+import * as yaml from 'yaml';
+import { ConfigFormat, SourceFormat } from './configParser';
+import { INI_FIELDS, INI_HEALTH_CHECK_FIELDS, INI_HOOK_FIELDS, INI_MATCHER_FIELDS, INI_OVERRIDE_FIELDS, INI_READINESS_FIELDS, INI_WHEN_FIELDS, INI_SECTION_PREFIXES, IniFieldType, IniSectionKind } from './iniConfigParser';
+import { HOOK_NAMES, TerminalLauncherConfig } from './types';
+import { isRecord, isStringArray } from './typeGuards';
+
+// Raised when a config holds something the target format cannot represent exactly
+export class ConfigWriteError extends Error {}
+
+export class ConfigWriter {
+    serialize(config: TerminalLauncherConfig, format: ConfigFormat): string {
+        switch (format) {
+            case 'json':
+                return JSON.stringify(config, null, 2) + '\n';
+            case 'yaml':
+                return yaml.stringify(config, { lineWidth: 0, aliasDuplicateObjects: false });
+            default:
+                return this.toIni(config);
+        }
+    }
+
+    // Tidies spacing without reordering anything; comments in YAML and the simple format stay where they are
+    format(content: string, format: SourceFormat): string {
+        switch (format) {
+            case 'procfile':
+            case 'compose':
+                throw new ConfigWriteError('it belongs to another tool; convert it to a Terminal Launcher config instead');
+            case 'json': {
+                const edits = jsonc.format(content, undefined, { tabSize: 2, insertSpaces: true, eol: '\n' });
+                return jsonc.applyEdits(content, edits);
+            }
+            case 'yaml': {
+                const document = yaml.parseDocument(content);
+                if (document.errors.length > 0) {
+                    throw new ConfigWriteError('it has YAML syntax errors');
+                }
+                return document.toString();
+            }
+            default:
+                return this.formatIni(content);
+        }
+    }
+
+    // Resolves to false when the file exists and the user chose not to overwrite it
+    async writeFile(filePath: string, content: string): Promise<boolean> {
+        if (fs.existsSync(filePath)) {
+            const answer = await vscode.window.showWarningMessage(
+                `${path.basename(filePath)} already exists in ${path.dirname(filePath)}. Overwrite it?`,
+                { modal: true },
+                'Overwrite'
+            );
+            if (answer !== 'Overwrite') {
+                return false;
+            }
+        }
+
+        fs.writeFileSync(filePath, content, 'utf8');
+        return true;
+    }
+
+    private toIni(config: TerminalLauncherConfig): string {
+        const sections: string[][] = [];
+        const root: Record<string, unknown> = { ...config };
+        delete root.groups;
+        delete root.terminals;
+        delete root.inputs;
+        delete root.profiles;
+
+        const rootLines = this.writeEntries('root', root, 'The file');
+        if (rootLines.length > 0) {
+            sections.push(rootLines);
+        }
+
+        for (const terminal of this.asList(config.terminals, '"terminals"')) {
+            sections.push(this.writeSection('terminal', terminal, 'name', ''));
+        }
+
+        for (const group of this.asList(config.groups, '"groups"')) {
+            if (!isRecord(group)) {
+                throw new ConfigWriteError('Every group must be an object');
+            }
+            const { name, terminals, ...rest } = group;
+            if (name !== undefined && typeof name !== 'string') {
+                throw new ConfigWriteError('A group without a string "name" cannot be written in the simple format');
+            }
+            const label = name === undefined ? 'An unnamed group' : `Group "${name}"`;
+            const unsupported = Object.keys(rest).find(key => key !== 'when' && key !== 'envFile' && !(HOOK_NAMES as readonly string[]).includes(key));
+            if (unsupported) {
+                throw new ConfigWriteError(`${label} has "${unsupported}", which the simple format has no place for`);
+            }
+            if (name !== undefined) {
+                this.checkHeaderName(name, label);
+            }
+
+            sections.push([`[${INI_SECTION_PREFIXES.group}${name ?? ''}]`, ...this.writeEntries('group', rest, label)]);
+            for (const terminal of this.asList(terminals, `${label}'s "terminals"`)) {
+                sections.push(this.writeSection('terminal', terminal, 'name', ''));
+            }
+        }
+
+        for (const input of this.asList(config.inputs, '"inputs"')) {
+            sections.push(this.writeSection('input', input, 'id', INI_SECTION_PREFIXES.input));
+        }
+        for (const profile of this.asList(config.profiles, '"profiles"')) {
+            sections.push(this.writeSection('profile', profile, 'name', INI_SECTION_PREFIXES.profile));
+        }
+
+        return sections.map(lines => lines.join('\n')).join('\n\n') + '\n';
+    }
+
+    private writeSection(kind: IniSectionKind, item: unknown, nameKey: string, prefix: string): string[] {
+        if (!isRecord(item)) {
+            throw new ConfigWriteError(`Every ${kind} must be an object`);
+        }
+
+        const name = item[nameKey];
+        const label = `${kind[0].toUpperCase()}${kind.slice(1)} "${name}"`;
+        if (typeof name !== 'string') {
+            throw new ConfigWriteError(`A ${kind} without a string "${nameKey}" cannot be written in the simple format`);
+        }
+        this.checkHeaderName(name, label);
+        // A terminal named like a special section would be read back as that section
+        if (!prefix && Object.values(INI_SECTION_PREFIXES).some(special => name.startsWith(special))) {
+            throw new ConfigWriteError(`${label} starts with a reserved section prefix`);
+        }
+
+        const rest = { ...item };
+        delete rest[nameKey];
+        return [`[${prefix}${name}]`, ...this.writeEntries(kind, rest, label)];
+    }
+
+    private writeEntries(kind: IniSectionKind, values: Record<string, unknown>, label: string): string[] {
+        const lines: string[] = [];
+
+        for (const [key, value] of Object.entries(values)) {
+            if (value === undefined) {
+                continue;
+            }
+
+            this.checkKey(key, label);
+            if (key === 'env' && (kind === 'terminal' || kind === 'profile')) {
+                lines.push(...this.writeMap(value, ['env'], label, () => 'string'));
+            } else if (key === 'readyWhen' && kind === 'terminal') {
+                lines.push(...this.writeMap(value, ['readyWhen'], label, name => INI_READINESS_FIELDS[name] || 'string'));
+            } else if (key === 'healthCheck' && kind === 'terminal') {
+                lines.push(...this.writeMap(value, ['healthCheck'], label, name => INI_HEALTH_CHECK_FIELDS[name] || 'string'));
+            } else if (key === 'overrides' && kind === 'profile') {
+                lines.push(...this.writeOverrides(value, label));
+            } else if (key === 'matchers' && kind === 'terminal') {
+                lines.push(...this.writeMatchers(value, label));
+            } else if (key === 'when' && (kind === 'terminal' || kind === 'group')) {
+                lines.push(...this.writeWhen(value, label));
+            } else if (key === 'envFile' && (kind === 'root' || kind === 'group' || kind === 'terminal')) {
+                lines.push(...this.writeEnvFiles(value, label));
+            } else if ((HOOK_NAMES as readonly string[]).includes(key) && (kind === 'root' || kind === 'group') && typeof value === 'object') {
+                lines.push(...this.writeHook(key, value, label));
+            } else {
+                lines.push(this.entry(key, this.formatValue(value, INI_FIELDS[kind][key] || 'string', `${label}: "${key}"`)));
+            }
+        }
+
+        return lines;
+    }
+
+    // Optional files are listed under envFile.optional and read back after the required ones
+    private writeEnvFiles(envFile: unknown, label: string): string[] {
+        const files: unknown[] = Array.isArray(envFile) ? envFile : [envFile];
+        const isOptional = (file: unknown) => isRecord(file) && file.optional === true;
+        const firstOptional = files.findIndex(isOptional);
+        if (firstOptional !== -1 && files.slice(firstOptional).some(file => !isOptional(file))) {
+            throw new ConfigWriteError(`${label} has a required env file after an optional one, which the simple format cannot keep in order`);
+        }
+
+        const paths = files.map(file => isRecord(file) ? file.path : file);
+        const required = firstOptional === -1 ? paths : paths.slice(0, firstOptional);
+        const optional = firstOptional === -1 ? [] : paths.slice(firstOptional);
+        return [
+            ...(required.length > 0 || optional.length === 0
+                ? [this.entry('envFile', this.formatValue(required, 'list', `${label}: "envFile"`))]
+                : []),
+            ...(optional.length > 0
+                ? [this.entry('envFile.optional', this.formatValue(optional, 'list', `${label}: "envFile"`))]
+                : [])
+        ];
+    }
+
+    // Numbered from 1 in the order given, which is the order they are read back in
+    private writeMatchers(matchers: unknown, label: string): string[] {
+        if (!Array.isArray(matchers)) {
+            throw new ConfigWriteError(`${label}: "matchers" must be an array`);
+        }
+        return matchers.flatMap((matcher: unknown, index) =>
+            this.writeMap(matcher, ['matchers', String(index + 1)], label, option => INI_MATCHER_FIELDS[option] || 'string')
+        );
+    }
+
+    private writeMap(map: unknown, keyPrefix: string[], label: string, typeOf: (name: string) => IniFieldType): string[] {
+        if (!isRecord(map)) {
+            throw new ConfigWriteError(`${label}: "${keyPrefix.join('.')}" must be an object`);
+        }
+
+        return Object.entries(map).filter(([, value]) => value !== undefined).map(([name, value]) => {
+            this.checkKey(name, label);
+            const key = [...keyPrefix, name].join('.');
+            return this.entry(key, this.formatValue(value, typeOf(name), `${label}: "${key}"`));
+        });
+    }
+
+    private writeWhen(when: unknown, label: string): string[] {
+        if (!isRecord(when)) {
+            throw new ConfigWriteError(`${label}: "when" must be an object`);
+        }
+
+        const lines: string[] = [];
+        for (const [key, value] of Object.entries(when)) {
+            if (value === undefined) {
+                continue;
+            }
+            this.checkKey(key, label);
+            if (key === 'settings' && isRecord(value)) {
+                // Read back as text, which the condition compares as text anyway
+                const settings = Object.fromEntries(Object.entries(value).map(([name, setting]) =>
+                    [name, typeof setting === 'number' || typeof setting === 'boolean' ? String(setting) : setting]
+                ));
+                lines.push(...this.writeMap(settings, ['when', 'settings'], label, () => 'string'));
+            } else if (key === 'env' || key === 'settings') {
+                lines.push(...this.writeMap(value, ['when', key], label, () => 'string'));
+            } else {
+                const type = INI_WHEN_FIELDS[key] || 'string';
+                // A single pattern is a list of one
+                const listed = type === 'list' && typeof value === 'string' ? [value] : value;
+                lines.push(this.entry(`when.${key}`, this.formatValue(listed, type, `${label}: "when.${key}"`)));
+            }
+        }
+        return lines;
+    }
+
+    private writeHook(name: string, hook: unknown, label: string): string[] {
+        if (!isRecord(hook)) {
+            throw new ConfigWriteError(`${label}: "${name}" must be a command or an object`);
+        }
+
+        const { env, ...options } = hook;
+        return [
+            ...this.writeMap(options, [name], label, option => INI_HOOK_FIELDS[option] || 'string'),
+            ...(env === undefined ? [] : this.writeMap(env, [name, 'env'], label, () => 'string'))
+        ];
+    }
+
+    private writeOverrides(overrides: unknown, label: string): string[] {
+        if (!isRecord(overrides)) {
+            throw new ConfigWriteError(`${label}: "overrides" must be an object`);
+        }
+
+        const lines: string[] = [];
+        for (const [terminalName, override] of Object.entries(overrides)) {
+            this.checkKey(terminalName, label);
+            // Names with dots or quotes are quoted so the key can be split again
+            const name = /[."]/.test(terminalName) ? this.quote(terminalName) : terminalName;
+            if (!isRecord(override)) {
+                throw new ConfigWriteError(`${label}: the override for "${terminalName}" must be an object`);
+            }
+
+            for (const [option, value] of Object.entries(override)) {
+                if (value === undefined) {
+                    continue;
+                }
+                this.checkKey(option, label);
+                if (option === 'env') {
+                    lines.push(...this.writeMap(value, ['overrides', name, 'env'], label, () => 'string'));
+                } else {
+                    const key = `overrides.${name}.${option}`;
+                    lines.push(this.entry(key, this.formatValue(value, INI_OVERRIDE_FIELDS[option] || 'string', `${label}: "${key}"`)));
+                }
+            }
+        }
+        return lines;
+    }
+
+    private formatValue(value: unknown, type: IniFieldType, label: string): string {
+        switch (type) {
+            case 'number':
+                if (typeof value !== 'number' || !isFinite(value)) {
+                    throw new ConfigWriteError(`${label} must be a number to be written in the simple format`);
+                }
+                return String(value);
+            case 'boolean':
+                if (typeof value !== 'boolean') {
+                    throw new ConfigWriteError(`${label} must be true or false to be written in the simple format`);
+                }
+                return String(value);
+            case 'numbers':
+                if (!Array.isArray(value) || !value.every((item: unknown) => typeof item === 'number' && isFinite(item))) {
+                    throw new ConfigWriteError(`${label} must be a list of numbers to be written in the simple format`);
+                }
+                return value.join(', ');
+            case 'list':
+            case 'commands': {
+                const separator = type === 'list' ? ',' : ';';
+                if (!isStringArray(value) || value.some(item => item === '')) {
+                    throw new ConfigWriteError(`${label} must be a list of non-empty strings to be written in the simple format`);
+                }
+                return value.map(item => this.needsQuotes(item) || item.includes(separator) ? this.quote(item) : item)
+                    .join(`${separator} `);
+            }
+            default:
+                if (typeof value !== 'string') {
+                    throw new ConfigWriteError(`${label} must be a string to be written in the simple format`);
+                }
+                return this.needsQuotes(value) ? this.quote(value) : value;
+        }
+    }
+
+    private entry(key: string, value: string): string {
+        return value ? `${key} = ${value}` : `${key} =`;
+    }
+
+    private needsQuotes(value: string): boolean {
+        // Empty or padded values, leading quotes, line breaks and a trailing backslash (a line continuation)
+        return value === '' || /^\s|\s$/.test(value) || /^["']/.test(value) || /[\r\n]/.test(value) || value.endsWith('\\');
+    }
+
+    private quote(value: string): string {
+        const escaped = value
+            .replace(/\\/g, '\\\\')
+            .replace(/"/g, '\\"')
+            .replace(/\n/g, '\\n')
+            .replace(/\r/g, '\\r')
+            .replace(/\t/g, '\\t');
+        return `"${escaped}"`;
+    }
+
+    private checkKey(key: string, label: string) {
+        if (!key || key.includes('=') || /[\r\n]/.test(key) || key !== key.trim()) {
+            throw new ConfigWriteError(`${label}: "${key}" cannot be used as a key in the simple format`);
+        }
+    }
+
+    private checkHeaderName(name: string, label: string) {
+        if (!name.trim() || name !== name.trim() || /[\r\n]/.test(name)) {
+            throw new ConfigWriteError(`${label} cannot be used as a section name in the simple format`);
+        }
+    }
+
+    private asList(value: unknown, label: string): unknown[] {
+        if (value === undefined) {
+            return [];
+        }
+        if (!Array.isArray(value)) {
+            throw new ConfigWriteError(`${label} must be an array`);
+        }
+        return value;
+    }
+
+    private formatIni(content: string): string {
+        const output: string[] = [];
+        let continuing = false;
+
+        for (const line of content.split(/\r?\n/)) {
+            const trimmed = line.trim();
+
+            // Continuation lines are left as written; only trailing spaces go
+            if (continuing) {
+                output.push(line.trimEnd());
+                continuing = trimmed.endsWith('\\');
+                continue;
+            }
+
+            if (!trimmed) {
+                if (output.length > 0 && output[output.length - 1] !== '') {
+                    output.push('');
+                }
+                continue;
+            }
+
+            if (trimmed.startsWith('#') || trimmed.startsWith(';')) {
+                output.push(trimmed);
+                continue;
+            }
+
+            if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
+                // One blank line before each section, ahead of the comments that introduce it
+                let insertAt = output.length;
+                while (insertAt > 0 && /^[#;]/.test(output[insertAt - 1])) {
+                    insertAt--;
+                }
+                if (insertAt > 0 && output[insertAt - 1] !== '') {
+                    output.splice(insertAt, 0, '');
+                }
+                output.push(this.formatHeader(trimmed.slice(1, -1)));
+                continue;
+            }
+
+            const separator = trimmed.indexOf('=');
+            if (separator > 0) {
+                const key = trimmed.slice(0, separator).trim();
+                const value = trimmed.slice(separator + 1).trim();
+                output.push(this.entry(key, value));
+                continuing = value.endsWith('\\');
+                continue;
+            }
+
+            // Leave lines the parser would reject alone; validation points at them
+            output.push(trimmed);
+        }
+
+        while (output.length > 0 && output[output.length - 1] === '') {
+            output.pop();
+        }
+        return output.join('\n') + '\n';
+    }
+
+    private formatHeader(header: string): string {
+        const name = header.trim();
+        for (const prefix of Object.values(INI_SECTION_PREFIXES)) {
+            if (name.startsWith(prefix)) {
+                return `[${prefix}${name.slice(prefix.length).trim()}]`;
+            }
+        }
+        return `[${name}]`;
+    }
+}
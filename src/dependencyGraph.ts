@@ -0,0 +1,84 @@
+import { TerminalConfig } from './types';
+
+export class DependencyGraph {
+    private byName = new Map<string, TerminalConfig>();
+
+    constructor(private terminals: TerminalConfig[]) {
+        for (const terminal of terminals) {
+            this.byName.set(terminal.name, terminal);
+        }
+    }
+
+    getDependencies(terminal: TerminalConfig): string[] {
+        return terminal.dependsOn || [];
+    }
+
+    // Dependencies on terminals outside this graph (e.g. already running elsewhere)
+    getExternalDependencies(terminal: TerminalConfig): string[] {
+        return this.getDependencies(terminal).filter(name => !this.byName.has(name));
+    }
+
+    hasDependents(terminal: TerminalConfig): boolean {
+        return this.terminals.some(other => this.getDependencies(other).includes(terminal.name));
+    }
+
+    findCycle(): string[] | undefined {
+        const visiting = new Set<string>();
+        const visited = new Set<string>();
+        const trail: string[] = [];
+
+        const visit = (name: string): string[] | undefined => {
+            if (visiting.has(name)) {
+                return [...trail.slice(trail.indexOf(name)), name];
+            }
+            const terminal = this.byName.get(name);
+            if (!terminal || visited.has(name)) {
+                return undefined;
+            }
+
+            visiting.add(name);
+            trail.push(name);
+            for (const dependency of this.getDependencies(terminal)) {
+                const cycle = visit(dependency);
+                if (cycle) {
+                    return cycle;
+                }
+            }
+            trail.pop();
+            visiting.delete(name);
+            visited.add(name);
+            return undefined;
+        };
+
+        for (const terminal of this.terminals) {
+            const cycle = visit(terminal.name);
+            if (cycle) {
+                return cycle;
+            }
+        }
+        return undefined;
+    }
+
+    // Topological order that keeps the configured order wherever dependencies allow it
+    sort(): TerminalConfig[] {
+        const cycle = this.findCycle();
+        if (cycle) {
+            throw new Error(`Dependency cycle detected: ${cycle.join(' → ')}`);
+        }
+
+        const ordered: TerminalConfig[] = [];
+        const placed = new Set<string>();
+        const remaining = [...this.terminals];
+
+        while (remaining.length > 0) {
+            const index = remaining.findIndex(terminal =>
+                this.getDependencies(terminal).every(name => placed.has(name) || !this.byName.has(name))
+            );
+            const [next] = remaining.splice(index, 1);
+            ordered.push(next);
+            placed.add(next.name);
+        }
+
+        return ordered;
+    }
+}
@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EnvFile } from './types';
+
+export class EnvFileError extends Error {}
+
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+const QUOTES = ['"', '\'', '`'];
+// Escapes understood inside double quotes; any other backslash is kept as written (think Windows paths)
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\', $: '$' };
+
+// Reads dotenv files: KEY=value lines, optionally prefixed with "export", with # comments.
+// Single quotes and backticks keep their content literally; double quotes understand escapes.
+// Quoted values may span lines. $VAR, ${VAR} and ${VAR:-default} expand in unquoted and double-quoted values.
+export class EnvFileLoader {
+    constructor(private basePath: string) {}
+
+    // Later files win over earlier ones, and may refer to what earlier files set
+    load(files: EnvFile[]): Record<string, string> {
+        const env: Record<string, string> = {};
+        for (const file of files) {
+            const { path: filePath, optional } = typeof file === 'string' ? { path: file, optional: false } : file;
+            let content: string;
+            try {
+                content = fs.readFileSync(path.resolve(this.basePath, filePath), 'utf8');
+            } catch (error) {
+                if (optional && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+                    continue;
+                }
+                throw new EnvFileError(`Cannot read env file ${filePath}: ${error instanceof Error ? error.message : error}`);
+            }
+            Object.assign(env, this.parse(content, filePath, env));
+        }
+        return env;
+    }
+
+    // known holds variables set before this file; anything else expands from the environment VS Code runs in
+    parse(content: string, fileName: string, known: Record<string, string> = {}): Record<string, string> {
+        const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+        const result: Record<string, string> = {};
+        const lookup = (name: string) => result[name] ?? known[name] ?? process.env[name];
+
+        let index = 0;
+        let lineNumber = 1;
+        while (index < text.length) {
+            const lineEnd = this.lineEnd(text, index);
+            const line = text.slice(index, lineEnd);
+            if (!line.trim() || line.trim().startsWith('#')) {
+                index = lineEnd + 1;
+                lineNumber++;
+                continue;
+            }
+
+            const at = `${fileName}:${lineNumber}`;
+            const match = /^\s*(?:export\s+)?([^=\s]+)\s*=[ \t]*/.exec(line);
+            if (!match) {
+                throw new EnvFileError(`${at}: expected KEY=value`);
+            }
+            const key = match[1];
+            if (!KEY_PATTERN.test(key)) {
+                throw new EnvFileError(`${at}: "${key}" is not a valid variable name`);
+            }
+
+            const start = index + match[0].length;
+            const quote = text[start];
+            if (QUOTES.includes(quote)) {
+                const close = this.findClosingQuote(text, start + 1, quote);
+                if (close === -1) {
+                    throw new EnvFileError(`${at}: the value of ${key} has no closing ${quote}`);
+                }
+                const closingLineEnd = this.lineEnd(text, close);
+                if (!/^\s*(#.*)?$/.test(text.slice(close + 1, closingLineEnd))) {
+                    throw new EnvFileError(`${at}: unexpected text after the closing ${quote} of ${key}`);
+                }
+
+                const raw = text.slice(start + 1, close);
+                result[key] = quote === '"' ? this.substitute(raw, lookup, true) : raw;
+                lineNumber += text.slice(index, closingLineEnd).split('\n').length;
+                index = closingLineEnd + 1;
+            } else {
+                // An unquoted # only starts a comment at the beginning of the value or after whitespace
+                const raw = text.slice(start, lineEnd).replace(/(^|\s+)#.*$/, '').trim();
+                result[key] = this.substitute(raw, lookup, false);
+                lineNumber++;
+                index = lineEnd + 1;
+            }
+        }
+        return result;
+    }
+
+    private lineEnd(text: string, from: number): number {
+        const end = text.indexOf('\n', from);
+        return end === -1 ? text.length : end;
+    }
+
+    private findClosingQuote(text: string, from: number, quote: string): number {
+        for (let index = from; index < text.length; index++) {
+            if (quote === '"' && text[index] === '\\') {
+                index++;
+            } else if (text[index] === quote) {
+                return index;
+            }
+        }
+        return -1;
+    }
+
+    // Escapes and variables are handled in one pass so expanded values are never unescaped again
+    private substitute(raw: string, lookup: (name: string) => string | undefined, escapes: boolean): string {
+        return raw.replace(
+            /\\([\s\S])|\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}|\$([A-Za-z_][A-Za-z0-9_]*)/g,
+            (match, escaped: string | undefined, braced: string | undefined, fallback: string | undefined, bare: string | undefined) => {
+                if (escaped !== undefined) {
+                    if (escapes) {
+                        return ESCAPES[escaped] ?? match;
+                    }
+                    return escaped === '$' ? '$' : match;
+                }
+                const value = lookup((braced ?? bare)!);
+                return value || (fallback ?? value ?? '');
+            }
+        );
+    }
+}
@@ -1,17 +1,43 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
 import { ConfigParser, ConfigLocation } from './configParser';
 import { TerminalManager } from './terminalManager';
 import { ConfigInitializer } from './configInitializer';
+import { ConfigValidator } from './configValidator';
+import { TerminalTreeProvider, LauncherTreeNode } from './terminalTreeProvider';
+import { ProfileManager } from './profileManager';
+import { LiveReloader } from './liveReloader';
+import { SessionManager } from './sessionManager';
+import { ConfigWriteError, ConfigWriter } from './configWriter';
+import { TrustManager } from './trustManager';
+import { OutputLogger } from './outputLogger';
+import { ProfileConfig, TerminalLauncherConfig } from './types';
 
 let terminalManager: TerminalManager;
 
+interface ProfileChoice {
+    location: ConfigLocation;
+    config: TerminalLauncherConfig;
+    profile: ProfileConfig;
+}
+
 export function activate(context: vscode.ExtensionContext) {
     console.log('Terminal Launcher extension is now active!');
 
-    terminalManager = new TerminalManager();
+    // Logs belong to the workspace; without a folder open they go to the extension's global storage
+    const outputLogger = new OutputLogger(path.join((context.storageUri || context.globalStorageUri).fsPath, 'logs'));
+    terminalManager = new TerminalManager(outputLogger);
     const configParser = new ConfigParser();
     const configInitializer = new ConfigInitializer();
+    const configValidator = new ConfigValidator(configParser);
+    const profileManager = new ProfileManager();
+    const configWriter = new ConfigWriter();
+    const treeProvider = new TerminalTreeProvider(configParser, terminalManager);
+    const trustManager = new TrustManager(context.workspaceState);
+    const liveReloader = new LiveReloader(configParser, terminalManager, profileManager, trustManager);
+    const sessionManager = new SessionManager(context.workspaceState, configParser, terminalManager, profileManager, trustManager);
+    context.subscriptions.push(configValidator, terminalManager, treeProvider, trustManager, liveReloader, sessionManager, outputLogger);
 
     // Register the main launch terminals command
     const launchCommand = vscode.commands.registerCommand('terminalLauncher.launchTerminals', async () => {
@@ -65,6 +91,10 @@ export function activate(context: vscode.ExtensionContext) {
             selectedConfig = selected.config;
         }
 
+        if (!await confirmLaunch(selectedConfig.path)) {
+            return;
+        }
+
         const config = await configParser.parseConfig(selectedConfig.path);
         
         if (!config) {
@@ -74,7 +104,7 @@ export function activate(context: vscode.ExtensionContext) {
 
         // Pass the project base path to the terminal manager
         const projectPath = path.dirname(selectedConfig.path);
-        await terminalManager.launchTerminals(config, projectPath);
+        await launchWithDefaultProfile(config, selectedConfig.path, projectPath);
         vscode.window.showInformationMessage(`Terminals launched for ${selectedConfig.projectName}!`);
     });
 
@@ -98,10 +128,14 @@ export function activate(context: vscode.ExtensionContext) {
         }
 
         for (const configLocation of configs) {
+            if (!await confirmLaunch(configLocation.path)) {
+                continue;
+            }
+
             const config = await configParser.parseConfig(configLocation.path);
             if (config) {
                 const projectPath = path.dirname(configLocation.path);
-                await terminalManager.launchTerminals(config, projectPath);
+                await launchWithDefaultProfile(config, configLocation.path, projectPath);
             }
         }
 
@@ -113,22 +147,491 @@ export function activate(context: vscode.ExtensionContext) {
         await configInitializer.initializeConfig();
     });
 
-    context.subscriptions.push(launchCommand, launchAllCommand, initCommand);
+    // Register the launch profile command
+    const launchProfileCommand = vscode.commands.registerCommand('terminalLauncher.launchProfile', async () => {
+        const picked = await pickProfile('Select a profile to launch');
+        if (!picked || !await confirmLaunch(picked.location.path, picked.config)) {
+            return;
+        }
+
+        const projectPath = path.dirname(picked.location.path);
+        await terminalManager.launchTerminals(profileManager.applyProfile(picked.config, picked.profile), projectPath, {
+            profileName: picked.profile.name,
+            configDir: projectPath
+        });
+        vscode.window.showInformationMessage(`Launched profile "${picked.profile.name}" for ${picked.location.projectName}!`);
+    });
+
+    // Register the command that picks the workspace default profile
+    const setDefaultProfileCommand = vscode.commands.registerCommand('terminalLauncher.setDefaultProfile', async () => {
+        const current = profileManager.getDefaultProfileName();
+        const picked = await pickProfile(`Select the default profile for this workspace${current ? ` (current: ${current})` : ''}`, true);
+        if (picked === undefined) {
+            return;
+        }
+
+        const name = picked === null ? undefined : picked.profile.name;
+        await profileManager.setDefaultProfileName(name);
+        vscode.window.showInformationMessage(name
+            ? `"${name}" is now the default profile for this workspace.`
+            : 'This workspace no longer has a default profile.');
+    });
+
+    // Rewrite a config in another format (JSON, YAML or simple)
+    const convertConfigCommand = vscode.commands.registerCommand('terminalLauncher.convertConfig', async () => {
+        const configPath = await pickConfigFile('Select a configuration file to convert');
+        if (!configPath) {
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument(configPath);
+        const content = document.getText();
+        const source = configParser.parseConfigSource(configPath, content);
+        if (source.errors.length > 0) {
+            vscode.window.showErrorMessage(`${path.basename(configPath)} has syntax errors. Fix them before converting it.`);
+            return;
+        }
+
+        const currentFormat = configParser.getFormat(configPath, content);
+        const formats = ([
+            { label: 'JSON', description: '.terminal.json', format: 'json' },
+            { label: 'YAML', description: '.terminal.yaml', format: 'yaml' },
+            { label: 'Simple', description: '.terminal', format: 'ini' }
+        ] as const).filter(item => item.format !== currentFormat);
+        const picked = await vscode.window.showQuickPick(formats, { placeHolder: `Convert ${path.basename(configPath)} to` });
+        if (!picked) {
+            return;
+        }
+
+        const format = picked.format;
+        let converted: string;
+        try {
+            converted = configWriter.serialize(source.config, format);
+        } catch (error) {
+            if (!(error instanceof ConfigWriteError)) {
+                throw error;
+            }
+            vscode.window.showErrorMessage(`Cannot convert ${path.basename(configPath)} to the ${picked.label} format: ${error.message}`);
+            return;
+        }
+
+        const targetPath = configParser.getConvertedPath(configPath, format);
+        if (!await configWriter.writeFile(targetPath, converted)) {
+            return;
+        }
+
+        if (targetPath !== configPath) {
+            // Only one config per folder is used, so keeping both leaves one of them ignored
+            const answer = await vscode.window.showInformationMessage(
+                `Converted to ${path.basename(targetPath)}. Delete ${path.basename(configPath)}? While both exist, only one of them is used.`,
+                'Delete Original',
+                'Keep Both'
+            );
+            if (answer === 'Delete Original') {
+                await vscode.workspace.fs.delete(vscode.Uri.file(configPath), { useTrash: true });
+            }
+        }
+
+        await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(targetPath));
+    });
+
+    // Turn a Procfile or compose file into a config that can be customized
+    const importProcessFileCommand = vscode.commands.registerCommand('terminalLauncher.importProcessFile', async () => {
+        const files = await configParser.findProcessFiles();
+        if (files.length === 0) {
+            vscode.window.showErrorMessage('No Procfile or docker-compose file found in the workspace.');
+            return;
+        }
+
+        const selected = files.length === 1 ? files[0] : (await vscode.window.showQuickPick(files.map(file => ({
+            label: file.projectName,
+            description: path.basename(file.path),
+            detail: `$(folder) ${file.path}`,
+            file
+        })), { placeHolder: 'Select a file to import terminals from', matchOnDescription: true, matchOnDetail: true }))?.file;
+        if (!selected) {
+            return;
+        }
+
+        const source = configParser.parseConfigSource(selected.path, fs.readFileSync(selected.path, 'utf8'));
+        if (source.errors.length > 0) {
+            vscode.window.showErrorMessage(`Cannot import ${path.basename(selected.path)}: ${source.errors[0].message}`);
+            return;
+        }
+
+        const targetPath = configParser.getConvertedPath(selected.path, 'json');
+        if (!await configWriter.writeFile(targetPath, configWriter.serialize(source.config, 'json'))) {
+            return;
+        }
+
+        const count = source.config.terminals?.length || 0;
+        vscode.window.showInformationMessage(`Imported ${count} terminal${count === 1 ? '' : 's'} from ${path.basename(selected.path)}.`);
+        await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(targetPath));
+    });
+
+    // Tidy a config in place; comments in the simple format are kept
+    const formatConfigCommand = vscode.commands.registerCommand('terminalLauncher.formatConfig', async () => {
+        const configPath = await pickConfigFile('Select a configuration file to format');
+        if (!configPath) {
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument(configPath);
+        const content = document.getText();
+        let formatted: string;
+        try {
+            formatted = configWriter.format(content, configParser.getFormat(configPath, content));
+        } catch (error) {
+            if (!(error instanceof ConfigWriteError)) {
+                throw error;
+            }
+            vscode.window.showErrorMessage(`Cannot format ${path.basename(configPath)}: ${error.message}`);
+            return;
+        }
+        if (formatted === content) {
+            vscode.window.showInformationMessage(`${path.basename(configPath)} is already formatted.`);
+            return;
+        }
+
+        const wasDirty = document.isDirty;
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, new vscode.Range(document.positionAt(0), document.positionAt(content.length)), formatted);
+        await vscode.workspace.applyEdit(edit);
+        // Leave unrelated unsaved edits for the user to save
+        if (!wasDirty) {
+            await document.save();
+        }
+        await vscode.window.showTextDocument(document);
+    });
+
+    // Sidebar view of projects, groups and terminals
+    const treeView = vscode.window.createTreeView('terminalLauncher.projects', {
+        treeDataProvider: treeProvider,
+        showCollapseAll: true
+    });
+
+    const refreshViewCommand = vscode.commands.registerCommand('terminalLauncher.refreshView', () => {
+        treeProvider.refresh();
+    });
+
+    const launchItemCommand = vscode.commands.registerCommand('terminalLauncher.launchItem', async (node: LauncherTreeNode) => {
+        const projectNode = node.kind === 'project' ? node : node.project;
+        if (!await confirmLaunch(projectNode.location.path, projectNode.config)) {
+            return;
+        }
+
+        await terminalManager.launchTerminals(
+            projectNode.config,
+            projectNode.projectPath,
+            {
+                only: node.kind === 'project' ? undefined : treeProvider.getTerminals(node),
+                configDir: path.dirname(projectNode.location.path)
+            }
+        );
+    });
+
+    const focusItemCommand = vscode.commands.registerCommand('terminalLauncher.focusItem', (node: LauncherTreeNode) => {
+        const projectPath = treeProvider.getProjectPath(node);
+        const focused = treeProvider.getTerminals(node).some(terminal => terminalManager.focusTerminal(terminal, projectPath));
+        if (!focused) {
+            vscode.window.showInformationMessage('No running terminal to focus.');
+        }
+    });
+
+    const restartItemCommand = vscode.commands.registerCommand('terminalLauncher.restartItem', async (node: LauncherTreeNode) => {
+        const projectNode = node.kind === 'project' ? node : node.project;
+        if (!await confirmLaunch(projectNode.location.path, projectNode.config)) {
+            return;
+        }
+
+        const projectPath = treeProvider.getProjectPath(node);
+        const running = new Set(terminalManager.getRunningTerminals(projectPath).map(terminal => terminal.config.name));
+        const terminals = treeProvider.getTerminals(node);
+        for (const terminal of terminals.filter(terminal => running.has(terminal.name))) {
+            await terminalManager.restartTerminal(terminal, projectPath);
+        }
+
+        // Terminals that are not running yet start from the file as it is now, like any other launch
+        const stopped = terminals.filter(terminal => !running.has(terminal.name));
+        if (stopped.length > 0) {
+            await terminalManager.launchTerminals(projectNode.config, projectPath, {
+                only: stopped,
+                configDir: path.dirname(projectNode.location.path)
+            });
+        }
+    });
+
+    const stopItemCommand = vscode.commands.registerCommand('terminalLauncher.stopItem', async (node: LauncherTreeNode) => {
+        const projectPath = treeProvider.getProjectPath(node);
+        await Promise.all(treeProvider.getTerminals(node).map(terminal => terminalManager.stopTerminal(terminal, projectPath)));
+    });
+
+    const stopProjectCommand = vscode.commands.registerCommand('terminalLauncher.stopProjectTerminals', async () => {
+        const projects = [...new Set(terminalManager.getAllRunningTerminals().map(terminal => terminal.projectBasePath))];
+        if (projects.length === 0) {
+            vscode.window.showInformationMessage('No terminals are running.');
+            return;
+        }
+
+        const selected = projects.length === 1 ? { projectPath: projects[0] } : await vscode.window.showQuickPick(projects.map(projectPath => ({
+            label: describeProject(projectPath),
+            description: projectPath,
+            projectPath
+        })), { placeHolder: 'Select the project whose terminals to stop' });
+        if (selected) {
+            await terminalManager.stopProject(selected.projectPath);
+        }
+    });
+
+    const stopAllCommand = vscode.commands.registerCommand('terminalLauncher.stopAllTerminals', async () => {
+        if (terminalManager.getAllRunningTerminals().length === 0) {
+            vscode.window.showInformationMessage('No terminals are running.');
+            return;
+        }
+        await terminalManager.stopAll();
+    });
+
+    const restartTerminalCommand = vscode.commands.registerCommand('terminalLauncher.restartTerminal', async () => {
+        const terminals = terminalManager.getAllRunningTerminals();
+        if (terminals.length === 0) {
+            vscode.window.showInformationMessage('No terminals are running.');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(terminals.map(terminal => ({
+            label: terminal.config.name,
+            description: describeProject(terminal.projectBasePath),
+            terminal
+        })), { placeHolder: 'Select a terminal to restart', matchOnDescription: true });
+        if (selected) {
+            await terminalManager.restartTerminal(selected.terminal.config, selected.terminal.projectBasePath);
+        }
+    });
+
+    const restartGroupCommand = vscode.commands.registerCommand('terminalLauncher.restartGroup', async () => {
+        // One entry per group and project; unnamed groups are listed by their first terminal
+        const groups = new Map<string, { label: string, description: string, groupName: string, projectPath?: string }>();
+        for (const terminal of terminalManager.getAllRunningTerminals()) {
+            if (terminal.groupName !== undefined && !groups.has(`${terminal.projectBasePath}::${terminal.groupName}`)) {
+                groups.set(`${terminal.projectBasePath}::${terminal.groupName}`, {
+                    label: terminal.groupName.startsWith('#') ? `Group with ${terminal.groupName.slice(1)}` : terminal.groupName,
+                    description: describeProject(terminal.projectBasePath),
+                    groupName: terminal.groupName,
+                    projectPath: terminal.projectBasePath
+                });
+            }
+        }
+        if (groups.size === 0) {
+            vscode.window.showInformationMessage('No terminal groups are running.');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick([...groups.values()], {
+            placeHolder: 'Select a group to restart',
+            matchOnDescription: true
+        });
+        if (selected) {
+            await terminalManager.restartGroup(selected.groupName, selected.projectPath);
+        }
+    });
+
+    // From the sidebar it opens that terminal's log; from the command palette it lists every log
+    const openLogCommand = vscode.commands.registerCommand('terminalLauncher.openLog', async (node?: LauncherTreeNode) => {
+        let logPath: string | undefined;
+        if (node) {
+            const terminal = treeProvider.getTerminals(node)[0];
+            logPath = terminal && terminalManager.getLogPath(terminal, treeProvider.getProjectPath(node));
+            if (!logPath || !fs.existsSync(logPath)) {
+                vscode.window.showInformationMessage(`${terminal?.name} has no log yet. Set "log": true on it, or turn on the terminalLauncher.log setting, and launch it again.`);
+                return;
+            }
+        } else {
+            const logs = outputLogger.listLogs();
+            if (logs.length === 0) {
+                vscode.window.showInformationMessage('No terminal logs yet. Set "log": true on a terminal, or turn on the terminalLauncher.log setting.');
+                return;
+            }
+            const selected = await vscode.window.showQuickPick(logs.map(log => ({
+                label: log.name,
+                description: log.modified.toLocaleString(),
+                filePath: log.filePath
+            })), { placeHolder: 'Select a terminal log to open' });
+            logPath = selected?.filePath;
+        }
+
+        if (logPath) {
+            await vscode.window.showTextDocument(vscode.Uri.file(logPath), { preview: false });
+        }
+    });
+
+    context.subscriptions.push(
+        launchCommand, launchAllCommand, initCommand, launchProfileCommand, setDefaultProfileCommand,
+        convertConfigCommand, formatConfigCommand, importProcessFileCommand,
+        treeView, refreshViewCommand, launchItemCommand, focusItemCommand, restartItemCommand, stopItemCommand,
+        stopProjectCommand, stopAllCommand, restartTerminalCommand, restartGroupCommand, openLogCommand
+    );
+
+    // Report problems in existing config files right away
+    configParser.findAllConfigFiles().then(configs => {
+        configs.forEach(configLocation => {
+            configValidator.validateFile(configLocation.path);
+            liveReloader.remember(configLocation.path);
+        });
+    });
 
     // Auto-launch terminals when workspace opens if config exists
     checkAndLaunchTerminals();
 
+    // Re-validate config files when they are saved from the editor
+    const saveListener = vscode.workspace.onDidSaveTextDocument(document => {
+        if (configParser.isConfigFile(document.fileName)) {
+            configValidator.validateContent(document.fileName, document.getText());
+        }
+    });
+
     // Watch for config file changes
-    const watcher = vscode.workspace.createFileSystemWatcher('**/.terminal{,.json}');
-    watcher.onDidCreate(() => {
+    // Procfiles and compose files are watched too, but only count when they are used as configs
+    const watcher = vscode.workspace.createFileSystemWatcher(
+        '**/{.terminal,.terminal.json,.terminal.yaml,.terminal.yml,Procfile,compose.yaml,compose.yml,docker-compose.yaml,docker-compose.yml}'
+    );
+    watcher.onDidCreate(uri => {
+        if (!configParser.isConfigFile(uri.fsPath)) {
+            return;
+        }
+        configValidator.validateFile(uri.fsPath);
+        liveReloader.remember(uri.fsPath);
+        treeProvider.refresh();
         vscode.window.showInformationMessage('Terminal configuration file detected. Use "Launch Configured Terminals" command to start.');
     });
+    watcher.onDidChange(uri => {
+        if (!configParser.isConfigFile(uri.fsPath)) {
+            return;
+        }
+        configValidator.validateFile(uri.fsPath);
+        liveReloader.scheduleReload(uri.fsPath);
+        treeProvider.refresh();
+    });
+    watcher.onDidDelete(uri => {
+        if (!configParser.isConfigFile(uri.fsPath)) {
+            return;
+        }
+        configValidator.clear(uri.fsPath);
+        liveReloader.scheduleReload(uri.fsPath);
+        treeProvider.refresh();
+    });
     
-    context.subscriptions.push(watcher);
+    context.subscriptions.push(saveListener, watcher);
+
+    async function launchWithDefaultProfile(config: TerminalLauncherConfig, configPath: string, projectPath?: string) {
+        const profile = profileManager.getDefaultProfile(config);
+        await terminalManager.launchTerminals(profile ? profileManager.applyProfile(config, profile) : config, projectPath, {
+            profileName: profile?.name,
+            configDir: path.dirname(configPath)
+        });
+    }
+
+    // Terminals launched on startup have no project path and belong to the workspace itself
+    function describeProject(projectPath: string | undefined): string {
+        return projectPath ? path.basename(projectPath) : 'Workspace';
+    }
+
+    // The config open in the editor, or one picked from the workspace
+    async function pickConfigFile(placeHolder: string): Promise<string | undefined> {
+        const activePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+        if (activePath && configParser.isConfigFile(activePath)) {
+            return activePath;
+        }
+
+        const configs = await configParser.findAllConfigFiles();
+        if (configs.length === 0) {
+            vscode.window.showErrorMessage('No terminal configuration files found.');
+            return undefined;
+        }
+        if (configs.length === 1) {
+            return configs[0].path;
+        }
+
+        const selected = await vscode.window.showQuickPick(configs.map(config => ({
+            label: config.projectName,
+            description: path.basename(config.path),
+            detail: `$(folder) ${config.path}`,
+            config
+        })), { placeHolder, matchOnDescription: true, matchOnDetail: true });
+        return selected?.config.path;
+    }
+
+    // Resolves to null when the "no profile" entry is chosen (only offered with allowNone)
+    async function pickProfile(placeHolder: string, allowNone = false): Promise<ProfileChoice | null | undefined> {
+        const configs = await configParser.findAllConfigFiles();
+        const items: (vscode.QuickPickItem & { value: ProfileChoice | null })[] = [];
+
+        for (const location of configs) {
+            const config = await configParser.parseConfig(location.path);
+            for (const profile of config?.profiles || []) {
+                items.push({
+                    label: profile.name,
+                    description: configs.length > 1 ? location.projectName : undefined,
+                    detail: profile.description,
+                    value: { location, config: config!, profile }
+                });
+            }
+        }
+
+        if (items.length === 0) {
+            vscode.window.showErrorMessage('No launch profiles are defined. Add a "profiles" section to a terminal configuration file.');
+            return undefined;
+        }
+
+        if (allowNone) {
+            items.unshift({ label: '$(circle-slash) No Default Profile', description: 'Launch every terminal', value: null });
+        }
+
+        const selected = await vscode.window.showQuickPick(items, { placeHolder, matchOnDescription: true, matchOnDetail: true });
+        return selected?.value;
+    }
+
+    // Checks for errors, then for approval of the config's commands
+    async function confirmLaunch(configPath: string, config?: TerminalLauncherConfig): Promise<boolean> {
+        const errors = configValidator.validateFile(configPath).filter(issue => issue.severity === 'error');
+        if (errors.length === 0) {
+            return approveCommands(configPath, config);
+        }
+
+        const answer = await vscode.window.showWarningMessage(
+            `${path.basename(configPath)} has ${errors.length} error${errors.length > 1 ? 's' : ''}: ${errors[0].message}`,
+            { modal: true },
+            'Launch Anyway',
+            'Show Problems'
+        );
+
+        if (answer === 'Show Problems') {
+            await vscode.commands.executeCommand('workbench.actions.view.problems');
+        }
+
+        return answer === 'Launch Anyway' && approveCommands(configPath, config);
+    }
+
+    async function approveCommands(configPath: string, config?: TerminalLauncherConfig): Promise<boolean> {
+        const loaded = config || await configParser.parseConfig(configPath);
+        return loaded !== undefined && trustManager.ensureApproved(configPath, loaded);
+    }
 
     async function checkAndLaunchTerminals() {
+        // Offer the terminals that ran last time before falling back to the first config found
+        if (sessionManager.hasPreviousSession() && sessionManager.getRestorePolicy() !== 'never') {
+            if (sessionManager.getRestorePolicy() === 'always' || await sessionManager.askToRestore()) {
+                await sessionManager.restore();
+            }
+            return;
+        }
+
         const configPath = await configParser.findConfigFile();
         if (configPath) {
+            if (configValidator.validateFile(configPath).some(issue => issue.severity === 'error')) {
+                // Don't offer to auto-launch a broken config; the Problems panel explains why
+                return;
+            }
+
             const config = await configParser.parseConfig(configPath);
             if (config) {
                 const answer = await vscode.window.showInformationMessage(
@@ -137,8 +640,8 @@ export function activate(context: vscode.ExtensionContext) {
                     'No'
                 );
                 
-                if (answer === 'Yes') {
-                    await terminalManager.launchTerminals(config);
+                if (answer === 'Yes' && await trustManager.ensureApproved(configPath, config)) {
+                    await launchWithDefaultProfile(config, configPath);
                 }
             }
         }
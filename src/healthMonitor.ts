@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import { exec } from 'child_process';
+import { ReadinessChecker } from './readinessChecker';
+import { HealthCheckConfig } from './types';
+
+export type HealthStatus = 'healthy' | 'unhealthy' | 'unknown';
+
+const DEFAULT_INTERVAL = 10000;
+const DEFAULT_TIMEOUT = 5000;
+const DEFAULT_FAILURE_THRESHOLD = 3;
+
+export interface UnhealthyEvent {
+    terminal: vscode.Terminal;
+    // Why the last check failed, e.g. "no 2xx response from http://localhost:3000/health"
+    reason: string;
+}
+
+interface Watched {
+    name: string;
+    check: HealthCheckConfig;
+    cwd: string;
+    env?: Record<string, string>;
+    status: HealthStatus;
+    reason?: string;
+    failures: number;
+    timer?: NodeJS.Timeout;
+}
+
+// Checks the health of running terminals until they close; starts out "unknown"
+export class HealthMonitor implements vscode.Disposable {
+    private watched = new Map<vscode.Terminal, Watched>();
+    private changeEmitter = new vscode.EventEmitter<void>();
+    private unhealthyEmitter = new vscode.EventEmitter<UnhealthyEvent>();
+    private closeListener: vscode.Disposable;
+
+    readonly onDidChange = this.changeEmitter.event;
+    // Fires when a terminal turns unhealthy, not on every failed check after that
+    readonly onDidBecomeUnhealthy = this.unhealthyEmitter.event;
+
+    constructor(private readinessChecker: ReadinessChecker) {
+        this.closeListener = vscode.window.onDidCloseTerminal(terminal => this.unwatch(terminal));
+    }
+
+    watch(terminal: vscode.Terminal, name: string, check: HealthCheckConfig, cwd: string, env?: Record<string, string>) {
+        this.unwatch(terminal);
+        const watched: Watched = { name, check, cwd, env, status: 'unknown', failures: 0 };
+        this.watched.set(terminal, watched);
+        this.schedule(terminal, watched);
+    }
+
+    getHealth(terminal: vscode.Terminal): { status: HealthStatus, reason?: string } | undefined {
+        const watched = this.watched.get(terminal);
+        return watched && { status: watched.status, reason: watched.reason };
+    }
+
+    dispose() {
+        [...this.watched.keys()].forEach(terminal => this.unwatch(terminal));
+        this.closeListener.dispose();
+        this.changeEmitter.dispose();
+        this.unhealthyEmitter.dispose();
+    }
+
+    private unwatch(terminal: vscode.Terminal) {
+        const watched = this.watched.get(terminal);
+        if (watched) {
+            clearTimeout(watched.timer);
+            this.watched.delete(terminal);
+        }
+    }
+
+    // The next check is scheduled once the previous one is done, so slow checks never overlap
+    private schedule(terminal: vscode.Terminal, watched: Watched) {
+        watched.timer = setTimeout(async () => {
+            const reason = await this.probe(watched);
+            if (this.watched.get(terminal) !== watched) {
+                return;
+            }
+
+            const previous = watched.status;
+            watched.reason = reason;
+            if (!reason) {
+                watched.failures = 0;
+                watched.status = 'healthy';
+            } else if (++watched.failures >= (watched.check.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD)) {
+                watched.status = 'unhealthy';
+            }
+
+            if (watched.status !== previous) {
+                this.changeEmitter.fire();
+                if (watched.status === 'unhealthy') {
+                    this.unhealthyEmitter.fire({ terminal, reason: reason! });
+                }
+            }
+            this.schedule(terminal, watched);
+        }, watched.check.interval ?? DEFAULT_INTERVAL);
+    }
+
+    // Resolves to why the check failed, or undefined when it passed
+    private async probe(watched: Watched): Promise<string | undefined> {
+        const { check } = watched;
+        const timeout = check.timeout ?? DEFAULT_TIMEOUT;
+
+        if (check.url && !await this.readinessChecker.checkUrl(check.url, timeout)) {
+            return `no 2xx response from ${check.url}`;
+        }
+        if (check.port !== undefined && !await this.readinessChecker.checkPort(check.host || 'localhost', check.port, timeout)) {
+            return `nothing accepts connections on ${check.host || 'localhost'}:${check.port}`;
+        }
+        if (check.command) {
+            return this.runCommand(check.command, watched.cwd, watched.env, timeout);
+        }
+        return undefined;
+    }
+
+    private runCommand(command: string, cwd: string, env: Record<string, string> | undefined, timeout: number): Promise<string | undefined> {
+        return new Promise(resolve => {
+            exec(command, { cwd, env: { ...process.env, ...env }, timeout }, error => {
+                if (!error) {
+                    resolve(undefined);
+                } else if (error.killed) {
+                    resolve(`"${command}" did not finish within ${timeout / 1000}s`);
+                } else {
+                    resolve(`"${command}" exited with code ${error.code}`);
+                }
+            });
+        });
+    }
+}
@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { HookConfig } from './types';
+
+export interface HookResult {
+    success: boolean;
+    // Why the hook failed, phrased to follow "<hook> ..."
+    reason?: string;
+}
+
+// Runs lifecycle hooks outside the launched terminals; commands log to an output channel, tasks show in their own terminal
+export class HookRunner implements vscode.Disposable {
+    private output = vscode.window.createOutputChannel('Terminal Launcher Hooks');
+
+    // label names the hook in progress messages and the log, e.g. "preLaunch of Backend"
+    async run(hook: HookConfig, label: string, basePath: string): Promise<HookResult> {
+        return vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Running ${label}`,
+            cancellable: true
+        }, (_, cancellation) => hook.task !== undefined
+            ? this.runTask(hook.task, label, cancellation)
+            : this.runCommand(hook, label, basePath, cancellation));
+    }
+
+    showOutput() {
+        this.output.show(true);
+    }
+
+    dispose() {
+        this.output.dispose();
+    }
+
+    private runCommand(hook: HookConfig, label: string, basePath: string, cancellation: vscode.CancellationToken): Promise<HookResult> {
+        const cwd = hook.cwd ? path.resolve(basePath, hook.cwd) : basePath;
+        this.output.appendLine(`[${label}] ${cwd}$ ${hook.command}`);
+        this.output.show(true);
+
+        return new Promise(resolve => {
+            const child = spawn(hook.command || '', {
+                cwd,
+                env: { ...process.env, ...hook.env },
+                shell: true
+            });
+            const cancelListener = cancellation.onCancellationRequested(() => child.kill());
+            let finished = false;
+            // "error" can be followed by "close" for the same failure
+            const finish = (result: HookResult) => {
+                if (finished) {
+                    return;
+                }
+                finished = true;
+                cancelListener.dispose();
+                this.output.appendLine(`[${label}] ${result.success ? 'done' : result.reason}`);
+                resolve(result);
+            };
+
+            child.stdout.on('data', data => this.output.append(data.toString()));
+            child.stderr.on('data', data => this.output.append(data.toString()));
+            child.on('error', error => finish({ success: false, reason: `could not start: ${error.message}` }));
+            child.on('close', (code, signal) => {
+                if (cancellation.isCancellationRequested) {
+                    finish({ success: false, reason: 'was cancelled' });
+                } else if (code === 0) {
+                    finish({ success: true });
+                } else {
+                    finish({ success: false, reason: code !== null ? `exited with code ${code}` : `was killed by ${signal}` });
+                }
+            });
+        });
+    }
+
+    private async runTask(name: string, label: string, cancellation: vscode.CancellationToken): Promise<HookResult> {
+        const task = (await vscode.tasks.fetchTasks()).find(candidate => candidate.name === name);
+        if (!task) {
+            return { success: false, reason: `refers to task "${name}", which does not exist` };
+        }
+
+        this.output.appendLine(`[${label}] task ${name}`);
+        let execution: vscode.TaskExecution;
+        try {
+            execution = await vscode.tasks.executeTask(task);
+        } catch (error) {
+            // E.g. the task's type is not provided by any installed extension
+            const reason = `could not start task "${name}": ${error instanceof Error ? error.message : error}`;
+            this.output.appendLine(`[${label}] ${reason}`);
+            return { success: false, reason };
+        }
+
+        return new Promise(resolve => {
+            const listeners: vscode.Disposable[] = [];
+            let finished = false;
+            const finish = (result: HookResult) => {
+                if (finished) {
+                    return;
+                }
+                finished = true;
+                listeners.forEach(listener => listener.dispose());
+                this.output.appendLine(`[${label}] ${result.success ? 'done' : result.reason}`);
+                resolve(result);
+            };
+
+            listeners.push(
+                cancellation.onCancellationRequested(() => execution.terminate()),
+                // Process tasks report an exit code before they end; other tasks only report that they ended
+                vscode.tasks.onDidEndTaskProcess(event => {
+                    if (event.execution === execution) {
+                        finish(cancellation.isCancellationRequested ? { success: false, reason: 'was cancelled' }
+                            : !event.exitCode ? { success: true }
+                            : { success: false, reason: `exited with code ${event.exitCode}` });
+                    }
+                }),
+                vscode.tasks.onDidEndTask(event => {
+                    if (event.execution === execution) {
+                        finish(cancellation.isCancellationRequested ? { success: false, reason: 'was cancelled' } : { success: true });
+                    }
+                })
+            );
+        });
+    }
+}
@@ -0,0 +1,552 @@
+import { ConfigPath, ConfigSyntaxError, ParsedConfigSource, SourceRange } from './configParser';
+import { HOOK_NAMES, TerminalLauncherConfig } from './types';
+import { listOf } from './typeGuards';
+
+export type IniFieldType = 'string' | 'number' | 'boolean' | 'list' | 'numbers' | 'commands';
+
+export type IniSectionKind = 'root' | 'group' | 'terminal' | 'input' | 'profile';
+
+// Headers other than these name a terminal: [group:Backend], [input:env], [profile:dev]
+export const INI_SECTION_PREFIXES = {
+    group: 'group:',
+    input: 'input:',
+    profile: 'profile:'
+};
+
+export const INI_FIELDS: Record<IniSectionKind, Record<string, IniFieldType>> = {
+    root: {
+        version: 'string',
+        extends: 'string',
+        include: 'list',
+        envFile: 'list',
+        preLaunch: 'string',
+        postLaunch: 'string',
+        onStop: 'string'
+    },
+    group: {
+        envFile: 'list',
+        preLaunch: 'string',
+        postLaunch: 'string',
+        onStop: 'string'
+    },
+    terminal: {
+        name: 'string',
+        cwd: 'string',
+        command: 'string',
+        commands: 'commands',
+        script: 'string',
+        commandDelay: 'number',
+        stopOnFailure: 'boolean',
+        color: 'string',
+        icon: 'string',
+        shellPath: 'string',
+        shellArgs: 'list',
+        dependsOn: 'list',
+        ports: 'numbers',
+        tags: 'list',
+        restart: 'string',
+        maxRestarts: 'number',
+        restartDelay: 'number',
+        stopCommand: 'string',
+        stopSignal: 'string',
+        stopGracePeriod: 'number',
+        log: 'boolean',
+        envFile: 'list'
+    },
+    input: {
+        id: 'string',
+        type: 'string',
+        description: 'string',
+        options: 'list',
+        default: 'string',
+        password: 'boolean'
+    },
+    profile: {
+        name: 'string',
+        description: 'string',
+        terminals: 'list',
+        groups: 'list',
+        tags: 'list'
+    }
+};
+
+export const INI_READINESS_FIELDS: Record<string, IniFieldType> = {
+    port: 'number',
+    host: 'string',
+    url: 'string',
+    outputPattern: 'string',
+    file: 'string',
+    timeout: 'number',
+    interval: 'number'
+};
+
+export const INI_HEALTH_CHECK_FIELDS: Record<string, IniFieldType> = {
+    url: 'string',
+    port: 'number',
+    host: 'string',
+    command: 'string',
+    interval: 'number',
+    timeout: 'number',
+    failureThreshold: 'number'
+};
+
+// matchers.1.pattern = ...; the number only tells the matchers of a terminal apart
+export const INI_MATCHER_FIELDS: Record<string, IniFieldType> = {
+    pattern: 'string',
+    severity: 'string',
+    file: 'number',
+    line: 'number',
+    column: 'number',
+    message: 'number',
+    clearPattern: 'string'
+};
+
+// Hooks are written as one command (preLaunch = ...) or as dotted keys (preLaunch.task = build)
+export const INI_HOOK_FIELDS: Record<string, IniFieldType> = {
+    command: 'string',
+    task: 'string',
+    cwd: 'string'
+};
+
+// when.env.NAME and when.settings.<setting> hold single values; the rest are lists
+export const INI_WHEN_FIELDS: Record<string, IniFieldType> = {
+    platform: 'list',
+    exists: 'list',
+    notExists: 'list',
+    envSet: 'list',
+    envUnset: 'list',
+    branch: 'list'
+};
+
+export const INI_OVERRIDE_FIELDS: Record<string, IniFieldType> = {
+    command: 'string',
+    commands: 'commands'
+};
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', '"': '"' };
+
+// One entry after line continuations have been joined
+interface LogicalLine {
+    text: string;
+    offset: number;
+    // Offset just past the last physical line that belongs to it
+    end: number;
+}
+
+interface EntryLocation {
+    key: SourceRange;
+    value: SourceRange;
+}
+
+type IniValue = string | number | boolean | string[] | number[];
+
+// What the file builds up; arrays are indexed by number, like matchers
+type IniObject = Record<string | number, unknown>;
+
+interface Section {
+    kind: IniSectionKind;
+    target: IniObject;
+    path: ConfigPath;
+    // The matcher numbers used so far, in the order their matchers are listed
+    matcherNumbers?: string[];
+}
+
+class IniSyntaxError extends Error {}
+
+export class IniConfigParser {
+    parse(content: string): ParsedConfigSource {
+        const config: IniObject = {};
+        const errors: ConfigSyntaxError[] = [];
+        const locations = new Map<string, EntryLocation>();
+        const setLocation = (at: ConfigPath, location: EntryLocation) => {
+            const key = at.join('/');
+            if (!locations.has(key)) {
+                locations.set(key, location);
+            }
+        };
+
+        // Keys before the first section belong to the file itself; undefined after a broken header
+        let section: Section | undefined = { kind: 'root', target: config, path: [] };
+        let currentGroup: { target: IniObject, path: ConfigPath } | undefined;
+
+        for (const line of this.readLines(content)) {
+            const trimmed = line.text.trim();
+            if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith(';')) {
+                continue;
+            }
+
+            const indent = line.text.indexOf(trimmed);
+            const lineRange = { offset: line.offset + indent, length: Math.max(line.end - line.offset - indent, 1) };
+
+            if (trimmed.startsWith('[')) {
+                section = undefined;
+                if (!trimmed.endsWith(']')) {
+                    errors.push({ message: 'Section header is missing its closing "]"', range: lineRange });
+                    continue;
+                }
+
+                const header = trimmed.slice(1, -1).trim();
+                const headerRange = { offset: line.offset + indent, length: trimmed.length };
+                const headerLocation = { key: headerRange, value: headerRange };
+                const nameLocation = { key: headerRange, value: { offset: headerRange.offset + 1, length: Math.max(trimmed.length - 2, 1) } };
+                const list = (property: 'groups' | 'terminals' | 'inputs' | 'profiles', owner: IniObject, ownerPath: ConfigPath) => {
+                    const items = (owner[property] = owner[property] || []) as IniObject[];
+                    return { items, path: [...ownerPath, property, items.length] };
+                };
+
+                if (header.startsWith(INI_SECTION_PREFIXES.group)) {
+                    // Every terminal section after a group header belongs to that group
+                    const name = header.slice(INI_SECTION_PREFIXES.group.length).trim();
+                    const { items, path } = list('groups', config, []);
+                    const group: IniObject = name ? { name, terminals: [] } : { terminals: [] };
+                    items.push(group);
+                    currentGroup = { target: group, path };
+                    section = { kind: 'group', target: group, path };
+                    setLocation(path, headerLocation);
+                    setLocation([...path, 'name'], nameLocation);
+                    continue;
+                }
+
+                const kind = header.startsWith(INI_SECTION_PREFIXES.input) ? 'input'
+                    : header.startsWith(INI_SECTION_PREFIXES.profile) ? 'profile'
+                    : 'terminal';
+                const name = kind === 'terminal' ? header : header.slice(INI_SECTION_PREFIXES[kind].length).trim();
+                if (!name) {
+                    errors.push({ message: 'Section name is empty', range: headerRange });
+                    continue;
+                }
+
+                const { items, path } = kind === 'input' ? list('inputs', config, [])
+                    : kind === 'profile' ? list('profiles', config, [])
+                    : currentGroup ? list('terminals', currentGroup.target, currentGroup.path)
+                    : list('terminals', config, []);
+                const nameKey = kind === 'input' ? 'id' : 'name';
+                const target = { [nameKey]: name };
+                items.push(target);
+                section = { kind, target, path };
+                setLocation(path, headerLocation);
+                setLocation([...path, nameKey], nameLocation);
+                continue;
+            }
+
+            const separator = trimmed.indexOf('=');
+            if (separator === -1) {
+                errors.push({ message: 'Expected "key = value" or a [section] header', range: lineRange });
+                continue;
+            }
+
+            const key = trimmed.slice(0, separator).trim();
+            const rawValue = trimmed.slice(separator + 1);
+            const value = rawValue.trim();
+            const keyOffset = line.offset + indent + trimmed.indexOf(key);
+            const valueOffset = value
+                ? line.offset + indent + separator + 1 + rawValue.indexOf(value)
+                : line.offset + indent + separator;
+            const location = {
+                key: { offset: keyOffset, length: Math.max(key.length, 1) },
+                value: { offset: valueOffset, length: Math.max(line.end - valueOffset, 1) }
+            };
+
+            if (!key) {
+                errors.push({ message: 'Missing key before "="', range: lineRange });
+                continue;
+            }
+            if (!section) {
+                // The broken header above was already reported
+                continue;
+            }
+            if (section.kind === 'group' && !this.isHookKey(key) && !key.startsWith('when.') && key !== 'envFile' && key !== 'envFile.optional') {
+                errors.push({ message: `"${key}" must be inside a [terminal] section`, range: location.key });
+                continue;
+            }
+
+            try {
+                const { keys, type } = this.parseKey(section.kind, key);
+                if (keys[0] === 'envFile') {
+                    section.target.envFile = this.setEnvFiles(section.target.envFile, this.splitList(value, ','), keys.length > 1);
+                    setLocation([...section.path, 'envFile'], location);
+                    continue;
+                }
+                if (keys[0] === 'matchers') {
+                    const numbers = section.matcherNumbers = section.matcherNumbers || [];
+                    const number = String(keys[1]);
+                    if (!numbers.includes(number)) {
+                        numbers.push(number);
+                    }
+                    keys[1] = numbers.indexOf(number);
+                }
+
+                let target = section.target;
+                for (let i = 0; i < keys.length - 1; i++) {
+                    const nested = target[keys[i]] ?? (typeof keys[i + 1] === 'number' ? [] : {});
+                    if (typeof nested !== 'object' || nested === null) {
+                        throw new IniSyntaxError(`"${keys.slice(0, i + 1).join('.')}" is already set to a single value`);
+                    }
+                    target[keys[i]] = nested;
+                    target = nested as IniObject;
+                    setLocation([...section.path, ...keys.slice(0, i + 1)], location);
+                }
+                target[keys[keys.length - 1]] = this.parseValue(value, type);
+                setLocation([...section.path, ...keys], location);
+            } catch (error) {
+                if (!(error instanceof IniSyntaxError)) {
+                    throw error;
+                }
+                errors.push({ message: error.message, range: location.value });
+            }
+        }
+
+        if (!config.groups && !config.terminals) {
+            config.terminals = [];
+        }
+
+        return {
+            // Checked by the validator like every other format
+            config: config as TerminalLauncherConfig,
+            content,
+            errors,
+            locate: (configPath, target = 'value') => {
+                // Values inside a key (e.g. a single entry of commands) map to the whole line entry
+                for (let length = configPath.length; length > 0; length--) {
+                    const location = locations.get(configPath.slice(0, length).join('/'));
+                    if (location) {
+                        return location[target];
+                    }
+                }
+                return undefined;
+            }
+        };
+    }
+
+    private isHookKey(key: string): boolean {
+        return (HOOK_NAMES as readonly string[]).includes(key.split('.')[0]);
+    }
+
+    // Required env files load first and optional ones after, whichever key comes first; repeating a key replaces its files
+    private setEnvFiles(current: unknown, paths: string[], optional: boolean): unknown[] {
+        const files = listOf(current);
+        const required = files.filter(file => typeof file === 'string');
+        const optionals = files.filter(file => typeof file !== 'string');
+        return optional
+            ? [...required, ...paths.map(path => ({ path, optional: true }))]
+            : [...paths, ...optionals];
+    }
+
+    // Dotted keys fill nested objects: env.PORT, readyWhen.port, when.platform, preLaunch.task, overrides.API.env.PORT,
+    // matchers.1.pattern; envFile.optional lists the env files that may be missing
+    private parseKey(kind: IniSectionKind, key: string): { keys: ConfigPath, type: IniFieldType } {
+        const dot = key.indexOf('.');
+        const prefix = dot === -1 ? key : key.slice(0, dot);
+        const rest = key.slice(dot + 1);
+        const nested = dot !== -1 && (
+            (prefix === 'env' && (kind === 'terminal' || kind === 'profile'))
+            || (prefix === 'readyWhen' && kind === 'terminal')
+            || (prefix === 'healthCheck' && kind === 'terminal')
+            || (prefix === 'matchers' && kind === 'terminal')
+            || (key === 'envFile.optional' && kind !== 'input' && kind !== 'profile')
+            || (prefix === 'overrides' && kind === 'profile')
+            || (this.isHookKey(prefix) && (kind === 'root' || kind === 'group'))
+            || (prefix === 'when' && (kind === 'terminal' || kind === 'group'))
+        );
+
+        if (!nested) {
+            // Unknown keys are kept as plain strings so validation can point them out
+            return { keys: [key], type: INI_FIELDS[kind][key] || 'string' };
+        }
+        if (!rest) {
+            throw new IniSyntaxError(`Missing name after "${prefix}."`);
+        }
+
+        switch (prefix) {
+            case 'env':
+                return { keys: ['env', rest], type: 'string' };
+            case 'readyWhen':
+                return { keys: ['readyWhen', rest], type: INI_READINESS_FIELDS[rest] || 'string' };
+            case 'healthCheck':
+                return { keys: ['healthCheck', rest], type: INI_HEALTH_CHECK_FIELDS[rest] || 'string' };
+            case 'envFile':
+                return { keys: ['envFile', 'optional'], type: 'list' };
+        }
+        if (prefix === 'matchers') {
+            const numberEnd = rest.indexOf('.');
+            if (numberEnd <= 0 || numberEnd === rest.length - 1) {
+                throw new IniSyntaxError('Expected matchers.<number>.<option>');
+            }
+            const option = rest.slice(numberEnd + 1);
+            return { keys: ['matchers', rest.slice(0, numberEnd), option], type: INI_MATCHER_FIELDS[option] || 'string' };
+        }
+        if (prefix === 'when') {
+            // Setting names contain dots themselves: when.settings.editor.tabSize
+            for (const map of ['env', 'settings']) {
+                if (rest.startsWith(`${map}.`) && rest.length > map.length + 1) {
+                    return { keys: ['when', map, rest.slice(map.length + 1)], type: 'string' };
+                }
+            }
+            return { keys: ['when', rest], type: INI_WHEN_FIELDS[rest] || 'string' };
+        }
+        if (this.isHookKey(prefix)) {
+            if (rest.startsWith('env.') && rest.length > 4) {
+                return { keys: [prefix, 'env', rest.slice(4)], type: 'string' };
+            }
+            return { keys: [prefix, rest], type: INI_HOOK_FIELDS[rest] || 'string' };
+        }
+
+        // Terminal names may contain dots, so they can be quoted: overrides."api.v2".command
+        let name: string;
+        let option: string;
+        if (rest.startsWith('"')) {
+            const close = this.findClosingQuote(rest);
+            if (close === -1 || rest[close + 1] !== '.') {
+                throw new IniSyntaxError('Expected overrides."<terminal>".<option>');
+            }
+            name = this.unquote(rest.slice(0, close + 1));
+            option = rest.slice(close + 2);
+        } else {
+            const nameEnd = rest.indexOf('.');
+            name = nameEnd === -1 ? rest : rest.slice(0, nameEnd);
+            option = nameEnd === -1 ? '' : rest.slice(nameEnd + 1);
+        }
+
+        if (!name || !option) {
+            throw new IniSyntaxError('Expected overrides.<terminal>.<option>');
+        }
+        if (option.startsWith('env.') && option.length > 4) {
+            return { keys: ['overrides', name, 'env', option.slice(4)], type: 'string' };
+        }
+        return { keys: ['overrides', name, option], type: INI_OVERRIDE_FIELDS[option] || 'string' };
+    }
+
+    private findClosingQuote(value: string): number {
+        for (let i = 1; i < value.length; i++) {
+            if (value[i] === '\\') {
+                i++;
+            } else if (value[i] === '"') {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    // Joins lines ending in a backslash with the line after them
+    private readLines(content: string): LogicalLine[] {
+        const lines: LogicalLine[] = [];
+        let offset = 0;
+        let pending: LogicalLine | undefined;
+
+        for (const physical of content.split('\n')) {
+            const text = physical.endsWith('\r') ? physical.slice(0, -1) : physical;
+            const start = offset;
+            offset += physical.length + 1;
+
+            const isComment = !pending && /^\s*[#;]/.test(text);
+            const continues = !isComment && text.trimEnd().endsWith('\\');
+            const part = continues ? text.trimEnd().slice(0, -1) : text;
+
+            if (pending) {
+                pending.text += part.trimStart();
+                pending.end = start + text.length;
+            } else {
+                pending = { text: part, offset: start, end: start + text.length };
+            }
+
+            if (!continues) {
+                lines.push(pending);
+                pending = undefined;
+            }
+        }
+
+        if (pending) {
+            lines.push(pending);
+        }
+        return lines;
+    }
+
+    private parseValue(value: string, type: IniFieldType): IniValue {
+        switch (type) {
+            case 'number': {
+                const number = Number(this.unquote(value));
+                if (value === '' || isNaN(number)) {
+                    throw new IniSyntaxError(`Expected a number, got "${value}"`);
+                }
+                return number;
+            }
+            case 'boolean': {
+                const text = this.unquote(value).toLowerCase();
+                if (text !== 'true' && text !== 'false') {
+                    throw new IniSyntaxError(`Expected true or false, got "${value}"`);
+                }
+                return text === 'true';
+            }
+            case 'list':
+                return this.splitList(value, ',');
+            case 'numbers':
+                return this.splitList(value, ',').map(item => {
+                    const number = Number(item);
+                    if (isNaN(number)) {
+                        throw new IniSyntaxError(`Expected a list of numbers, got "${item}"`);
+                    }
+                    return number;
+                });
+            case 'commands':
+                return this.splitList(value, ';');
+            default:
+                return this.unquote(value);
+        }
+    }
+
+    // Splits on the separator outside of quotes, then unquotes each item
+    private splitList(value: string, separator: string): string[] {
+        const items: string[] = [];
+        let current = '';
+        let quote: string | undefined;
+
+        for (let i = 0; i < value.length; i++) {
+            const char = value[i];
+            if (quote) {
+                current += char;
+                if (char === '\\' && quote === '"' && i + 1 < value.length) {
+                    current += value[++i];
+                } else if (char === quote) {
+                    quote = undefined;
+                }
+            } else if ((char === '"' || char === '\'') && !current.trim()) {
+                // Quotes only count at the start of an item, so "don't" is read as written
+                quote = char;
+                current += char;
+            } else if (char === separator) {
+                items.push(current);
+                current = '';
+            } else {
+                current += char;
+            }
+        }
+        items.push(current);
+
+        return items.map(item => this.unquote(item.trim())).filter(item => item !== '');
+    }
+
+    unquote(value: string): string {
+        const quote = value[0];
+        if (quote !== '"' && quote !== '\'') {
+            return value;
+        }
+
+        let result = '';
+        for (let i = 1; i < value.length; i++) {
+            const char = value[i];
+            if (char === quote) {
+                // Only a fully quoted value is unquoted; '"my app" --flag' is a command and stays as written
+                return i === value.length - 1 ? result : value;
+            }
+            // Single-quoted values are taken literally; unknown escapes (e.g. \d in a pattern) are kept as written
+            if (char === '\\' && quote === '"' && i + 1 < value.length) {
+                const next = value[++i];
+                result += ESCAPES[next] ?? `\\${next}`;
+            } else {
+                result += char;
+            }
+        }
+
+        throw new IniSyntaxError(`Missing closing ${quote}`);
+    }
+}
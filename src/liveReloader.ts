@@ -0,0 +1,214 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigParser } from './configParser';
+import { ProfileManager } from './profileManager';
+import { RunningTerminal, TerminalManager } from './terminalManager';
+import { TrustManager } from './trustManager';
+import { TerminalConfig, TerminalGroupConfig, TerminalLauncherConfig } from './types';
+import { InputCancelledError, VariableResolver } from './variableResolver';
+
+const RELOAD_DEBOUNCE = 300;
+
+interface ChangedTerminal {
+    terminal: RunningTerminal;
+    definition: TerminalConfig;
+    resolved: TerminalConfig;
+    inputValues: Record<string, string>;
+}
+
+export class LiveReloader implements vscode.Disposable {
+    // The config as it was last loaded, so an edit can be told apart from what was already there
+    private snapshots = new Map<string, TerminalLauncherConfig>();
+    private timers = new Map<string, NodeJS.Timeout>();
+
+    constructor(
+        private configParser: ConfigParser,
+        private terminalManager: TerminalManager,
+        private profileManager: ProfileManager,
+        private trustManager: TrustManager
+    ) {}
+
+    isEnabled(): boolean {
+        return vscode.workspace.getConfiguration('terminalLauncher').get<boolean>('liveReload', false);
+    }
+
+    remember(configPath: string) {
+        const config = this.load(configPath);
+        if (config) {
+            this.snapshots.set(configPath, config);
+        }
+    }
+
+    // Several change events usually arrive for a single save
+    scheduleReload(configPath: string) {
+        clearTimeout(this.timers.get(configPath));
+        this.timers.set(configPath, setTimeout(() => {
+            this.timers.delete(configPath);
+            this.reload(configPath);
+        }, RELOAD_DEBOUNCE));
+    }
+
+    dispose() {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+    }
+
+    private async reload(configPath: string) {
+        const previous = this.snapshots.get(configPath);
+        // A deleted config leaves nothing behind, so every running terminal counts as removed
+        const next = fs.existsSync(configPath) ? this.load(configPath) : {};
+        if (!next) {
+            return;
+        }
+        this.snapshots.set(configPath, next);
+
+        if (!this.isEnabled()) {
+            return;
+        }
+
+        const projectPath = path.dirname(configPath);
+        const running = this.terminalManager.getRunningTerminals(projectPath);
+        if (running.length === 0) {
+            return;
+        }
+
+        // Compare against the same profile the terminals were launched with
+        const profileName = running.find(terminal => terminal.profileName)?.profileName;
+        const nextEffective = this.applyProfile(next, profileName);
+        const nextTerminals = this.getTerminalsByName(nextEffective);
+        const previousTerminals = previous ? this.getTerminalsByName(this.applyProfile(previous, profileName)) : undefined;
+
+        const changed: ChangedTerminal[] = [];
+        const removed: RunningTerminal[] = [];
+        for (const terminal of running) {
+            const entry = nextTerminals.get(terminal.config.name);
+            if (!entry) {
+                // Renamed copies of a terminal were never in the file, so they cannot have been removed from it
+                if (!previousTerminals || previousTerminals.has(terminal.config.name)) {
+                    removed.push(terminal);
+                }
+                continue;
+            }
+
+            const update = await this.resolveChange(terminal, entry, next, projectPath);
+            if (update) {
+                changed.push(update);
+            }
+        }
+
+        // Only terminals that were just added to the file are started; ones the user closed stay closed
+        const runningNames = new Set(running.map(terminal => terminal.config.name));
+        const added = previousTerminals
+            ? [...nextTerminals.values()].map(entry => entry.config).filter(terminal => !previousTerminals.has(terminal.name) && !runningNames.has(terminal.name))
+            : [];
+
+        // Edited commands run only once approved; declining leaves the running terminals as they are
+        const approved = (changed.length === 0 && added.length === 0) || await this.trustManager.ensureApproved(configPath, next);
+        if (approved) {
+            await this.applyChanges(changed, added, nextEffective, projectPath, profileName);
+        }
+
+        if (removed.length > 0) {
+            await this.offerToClose(removed, projectPath, configPath);
+        }
+    }
+
+    private async applyChanges(
+        changed: ChangedTerminal[],
+        added: TerminalConfig[],
+        nextEffective: TerminalLauncherConfig,
+        projectPath: string,
+        profileName: string | undefined
+    ) {
+        for (const { terminal, resolved, definition, inputValues } of changed) {
+            await this.terminalManager.replaceTerminal(resolved, projectPath, {
+                sourceConfig: definition,
+                groupName: terminal.groupName,
+                profileName: terminal.profileName,
+                inputValues
+            });
+        }
+
+        if (added.length > 0) {
+            await this.terminalManager.launchTerminals(nextEffective, projectPath, { only: added, profileName, configDir: projectPath });
+        }
+
+        if (changed.length > 0 || added.length > 0) {
+            const parts = [
+                changed.length > 0 ? `${changed.length} restarted` : '',
+                added.length > 0 ? `${added.length} started` : ''
+            ].filter(Boolean);
+            vscode.window.setStatusBarMessage(`$(sync) Terminal config reloaded: ${parts.join(', ')}`, 5000);
+        }
+    }
+
+    private async resolveChange(
+        terminal: RunningTerminal,
+        entry: { config: TerminalConfig, group?: TerminalGroupConfig },
+        config: TerminalLauncherConfig,
+        projectPath: string
+    ): Promise<ChangedTerminal | undefined> {
+        const definition = entry.config;
+        const resolver = new VariableResolver({
+            projectDir: projectPath,
+            configDir: projectPath,
+            inputs: config.inputs,
+            inputValues: terminal.inputValues
+        });
+
+        let resolved: TerminalConfig;
+        try {
+            resolved = await this.terminalManager.resolveTerminal(config, entry, resolver, projectPath);
+        } catch (error) {
+            if (!(error instanceof InputCancelledError)) {
+                vscode.window.showErrorMessage(`Failed to reload terminal "${definition.name}": ${error instanceof Error ? error.message : error}`);
+            }
+            return undefined;
+        }
+
+        if (stableStringify(resolved) === stableStringify(terminal.config)) {
+            return undefined;
+        }
+        return { terminal, definition, resolved, inputValues: resolver.getInputValues() };
+    }
+
+    private async offerToClose(removed: RunningTerminal[], projectPath: string, configPath: string) {
+        const names = removed.map(terminal => `"${terminal.config.name}"`).join(', ');
+        const answer = await vscode.window.showInformationMessage(
+            `${names} ${removed.length > 1 ? 'are' : 'is'} no longer in ${path.basename(configPath)}. Close ${removed.length > 1 ? 'them' : 'it'}?`,
+            'Close',
+            'Keep'
+        );
+
+        if (answer === 'Close') {
+            await Promise.all(removed.map(terminal => this.terminalManager.stopTerminal(terminal.config, projectPath)));
+        }
+    }
+
+    // A file that does not parse (usually mid-edit) is skipped rather than read as "every terminal removed"
+    private load(configPath: string): TerminalLauncherConfig | undefined {
+        try {
+            const loaded = this.configParser.loadConfig(configPath);
+            return loaded.errors.length === 0 ? loaded.config : undefined;
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    private applyProfile(config: TerminalLauncherConfig, profileName?: string): TerminalLauncherConfig {
+        const profile = profileName ? this.profileManager.findProfile(config, profileName) : undefined;
+        return profile ? this.profileManager.applyProfile(config, profile) : config;
+    }
+
+    private getTerminalsByName(config: TerminalLauncherConfig): Map<string, { config: TerminalConfig, group?: TerminalGroupConfig }> {
+        return new Map(this.terminalManager.getLaunchEntries(config).map(entry => [entry.config.name, entry]));
+    }
+}
+
+// Key order in the file should not count as a change
+function stableStringify(value: unknown): string {
+    return JSON.stringify(value, (_key, item) => item && typeof item === 'object' && !Array.isArray(item)
+        ? Object.fromEntries(Object.keys(item).sort().map(key => [key, item[key]]))
+        : item);
+}
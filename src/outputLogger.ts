@@ -0,0 +1,171 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { stripAnsi } from './readinessChecker';
+import { TerminalConfig } from './types';
+
+const LOG_EXTENSION = '.log';
+const MEGABYTE = 1024 * 1024;
+const DAY = 24 * 60 * 60 * 1000;
+
+interface LogLimits {
+    // Bytes before the file is rotated
+    maxSize: number;
+    // Rotated copies kept next to the current file
+    maxFiles: number;
+    // Milliseconds before a log file is deleted; 0 keeps them forever
+    maxAge: number;
+}
+
+// One log file and its rotated copies (API.log, API.log.1, API.log.2, ...)
+class LogFile {
+    private size: number;
+    // Writes are chained so chunks land in order and rotation never races an append
+    private pending = Promise.resolve();
+    // A full disk fails every write after the first; one warning per file is enough
+    private warned = false;
+
+    constructor(readonly filePath: string, private limits: LogLimits) {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        this.size = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+    }
+
+    write(text: string) {
+        this.pending = this.pending.then(async () => {
+            if (this.size > 0 && this.size + Buffer.byteLength(text) > this.limits.maxSize) {
+                await this.rotate();
+            }
+            await fs.promises.appendFile(this.filePath, text, 'utf8');
+            this.size += Buffer.byteLength(text);
+        }).catch(error => {
+            if (!this.warned) {
+                this.warned = true;
+                vscode.window.showWarningMessage(`Cannot write the output log ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+            }
+        });
+    }
+
+    private async rotate() {
+        await fs.promises.rm(`${this.filePath}.${this.limits.maxFiles}`, { force: true });
+        for (let index = this.limits.maxFiles - 1; index >= 1; index--) {
+            await fs.promises.rename(`${this.filePath}.${index}`, `${this.filePath}.${index + 1}`).catch(() => undefined);
+        }
+        if (this.limits.maxFiles > 0) {
+            await fs.promises.rename(this.filePath, `${this.filePath}.1`);
+        } else {
+            await fs.promises.rm(this.filePath, { force: true });
+        }
+        this.size = 0;
+    }
+}
+
+// Mirrors what runs in launched terminals into log files, without color codes.
+// Output is read through shell integration, so terminals without it are not logged.
+export class OutputLogger implements vscode.Disposable {
+    private files = new Map<vscode.Terminal, LogFile>();
+    private listeners: vscode.Disposable[];
+
+    // directory is undefined when VS Code has no storage to offer
+    constructor(private directory: string | undefined) {
+        this.listeners = [
+            vscode.window.onDidStartTerminalShellExecution(event => this.capture(event)),
+            vscode.window.onDidCloseTerminal(terminal => {
+                const file = this.files.get(terminal);
+                if (file) {
+                    const code = terminal.exitStatus?.code;
+                    file.write(`\n[${this.timestamp()}] Terminal closed${code !== undefined ? ` (exit code ${code})` : ''}\n`);
+                    this.files.delete(terminal);
+                }
+            })
+        ];
+    }
+
+    // The terminal's own "log" option wins over the terminalLauncher.log setting
+    isEnabled(config: TerminalConfig): boolean {
+        return config.log ?? vscode.workspace.getConfiguration('terminalLauncher').get<boolean>('log', false);
+    }
+
+    attach(terminal: vscode.Terminal, terminalName: string) {
+        const filePath = this.getLogPath(terminalName);
+        if (!filePath) {
+            return;
+        }
+
+        const limits = this.getLimits();
+        this.prune(limits);
+        try {
+            const file = new LogFile(filePath, limits);
+            file.write(`\n[${this.timestamp()}] Launched ${terminalName}\n`);
+            this.files.set(terminal, file);
+        } catch (error) {
+            vscode.window.showWarningMessage(`Cannot log the output of ${terminalName}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    getLogPath(terminalName: string): string | undefined {
+        // Characters that are not allowed in file names on some platforms
+        return this.directory && path.join(this.directory, `${terminalName.replace(/[\\/:*?"<>|]/g, '_')}${LOG_EXTENSION}`);
+    }
+
+    // Current log files, newest first
+    listLogs(): { name: string, filePath: string, modified: Date }[] {
+        if (!this.directory || !fs.existsSync(this.directory)) {
+            return [];
+        }
+        return fs.readdirSync(this.directory)
+            .filter(file => file.endsWith(LOG_EXTENSION))
+            .map(file => {
+                const filePath = path.join(this.directory!, file);
+                return { name: file.slice(0, -LOG_EXTENSION.length), filePath, modified: fs.statSync(filePath).mtime };
+            })
+            .sort((a, b) => b.modified.getTime() - a.modified.getTime());
+    }
+
+    dispose() {
+        this.listeners.forEach(listener => listener.dispose());
+        this.files.clear();
+    }
+
+    private async capture(event: vscode.TerminalShellExecutionStartEvent) {
+        const file = this.files.get(event.terminal);
+        if (!file) {
+            return;
+        }
+
+        file.write(`\n[${this.timestamp()}] $ ${event.execution.commandLine.value}\n`);
+        for await (const data of event.execution.read()) {
+            file.write(stripAnsi(data).replace(/\r\n?/g, '\n'));
+        }
+    }
+
+    private getLimits(): LogLimits {
+        const settings = vscode.workspace.getConfiguration('terminalLauncher');
+        return {
+            maxSize: Math.max(settings.get<number>('logMaxSize', 5), 0.1) * MEGABYTE,
+            maxFiles: Math.max(Math.floor(settings.get<number>('logMaxFiles', 3)), 0),
+            maxAge: Math.max(settings.get<number>('logMaxAge', 7), 0) * DAY
+        };
+    }
+
+    // Deletes log files (current and rotated) that have not been written to within the age limit
+    private prune(limits: LogLimits) {
+        if (!limits.maxAge || !this.directory || !fs.existsSync(this.directory)) {
+            return;
+        }
+        const cutoff = Date.now() - limits.maxAge;
+        for (const file of fs.readdirSync(this.directory)) {
+            const filePath = path.join(this.directory, file);
+            try {
+                if (fs.statSync(filePath).mtimeMs < cutoff) {
+                    fs.rmSync(filePath, { force: true });
+                }
+            } catch (error) {
+                // Removed by someone else in the meantime
+            }
+        }
+    }
+
+    private timestamp(): string {
+        return new Date().toLocaleString();
+    }
+}
@@ -0,0 +1,204 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { stripAnsi } from './readinessChecker';
+import { MATCHER_SEVERITIES, MatcherSeverity, OutputMatcherConfig } from './types';
+
+// An unfinished line is cut to this length while waiting for its line break
+const MAX_LINE_LENGTH = 8192;
+
+const DIAGNOSTIC_SEVERITIES: Record<MatcherSeverity, vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    info: vscode.DiagnosticSeverity.Information
+};
+
+// What a terminal's matchers currently report, shown next to it in the sidebar
+export interface OutputAlert {
+    severity: MatcherSeverity;
+    message: string;
+}
+
+interface ActiveMatcher {
+    config: OutputMatcherConfig;
+    pattern: RegExp;
+    clearPattern?: RegExp;
+    // Set from the first match until the clear pattern shows up
+    alert?: OutputAlert;
+    // Problems reported since the last clear, by file URI
+    diagnostics: Map<string, vscode.Diagnostic[]>;
+}
+
+interface WatchedTerminal {
+    name: string;
+    // File captures are relative to the terminal's working directory
+    cwd: string;
+    matchers: ActiveMatcher[];
+}
+
+// Turns matching terminal output into notifications, sidebar alerts and Problems entries
+export class OutputMatcher implements vscode.Disposable {
+    private diagnostics = vscode.languages.createDiagnosticCollection('terminalLauncher.output');
+    private watched = new Map<vscode.Terminal, WatchedTerminal>();
+    private changeEmitter = new vscode.EventEmitter<void>();
+    private listeners: vscode.Disposable[];
+
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor() {
+        this.listeners = [
+            vscode.window.onDidStartTerminalShellExecution(event => this.watch(event)),
+            // A closed terminal's problems would never be cleared
+            vscode.window.onDidCloseTerminal(terminal => {
+                if (this.watched.delete(terminal)) {
+                    this.publish();
+                }
+            })
+        ];
+    }
+
+    attach(terminal: vscode.Terminal, name: string, matchers: OutputMatcherConfig[], cwd: string) {
+        const active: ActiveMatcher[] = [];
+        for (const config of matchers) {
+            try {
+                active.push({
+                    config,
+                    pattern: new RegExp(config.pattern),
+                    clearPattern: config.clearPattern ? new RegExp(config.clearPattern) : undefined,
+                    diagnostics: new Map()
+                });
+            } catch (error) {
+                vscode.window.showWarningMessage(`Ignoring an output matcher of ${name}: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+        this.watched.set(terminal, { name, cwd, matchers: active });
+    }
+
+    // The most severe alert of the terminal's matchers
+    getAlert(terminal: vscode.Terminal): OutputAlert | undefined {
+        return this.watched.get(terminal)?.matchers
+            .map(matcher => matcher.alert)
+            .filter((alert): alert is OutputAlert => alert !== undefined)
+            .sort((a, b) => MATCHER_SEVERITIES.indexOf(a.severity) - MATCHER_SEVERITIES.indexOf(b.severity))[0];
+    }
+
+    dispose() {
+        this.listeners.forEach(listener => listener.dispose());
+        this.diagnostics.dispose();
+        this.changeEmitter.dispose();
+    }
+
+    private async watch(event: vscode.TerminalShellExecutionStartEvent) {
+        const watched = this.watched.get(event.terminal);
+        if (!watched || watched.matchers.length === 0) {
+            return;
+        }
+
+        let partial = '';
+        for await (const data of event.execution.read()) {
+            const lines = (partial + stripAnsi(data)).split('\n');
+            partial = lines.pop()!.slice(-MAX_LINE_LENGTH);
+            lines.forEach(line => this.matchLine(event.terminal, watched, line));
+        }
+        if (partial) {
+            this.matchLine(event.terminal, watched, partial);
+        }
+    }
+
+    private matchLine(terminal: vscode.Terminal, watched: WatchedTerminal, rawLine: string) {
+        // Progress output redraws the line with carriage returns; only what is left visible counts
+        const line = rawLine.replace(/\r$/, '').split('\r').pop()!;
+        let changed = false;
+
+        for (const matcher of watched.matchers) {
+            if (matcher.clearPattern?.test(line)) {
+                if (matcher.alert) {
+                    matcher.alert = undefined;
+                    matcher.diagnostics.clear();
+                    changed = true;
+                }
+                continue;
+            }
+
+            const match = matcher.pattern.exec(line);
+            if (!match) {
+                continue;
+            }
+
+            const { config } = matcher;
+            const alert: OutputAlert = {
+                severity: config.severity || 'error',
+                message: ((config.message !== undefined && match[config.message]) || line).trim()
+            };
+            const isNew = !matcher.alert;
+            matcher.alert = alert;
+            const hasLocation = this.addDiagnostic(watched, matcher, match, alert);
+            changed = true;
+
+            // Once per problem: a rebuild printing the same errors again should not pile up notifications
+            if (isNew) {
+                this.notify(terminal, watched.name, alert, hasLocation);
+            }
+        }
+
+        if (changed) {
+            this.publish();
+        }
+    }
+
+    // Returns whether the match named a file, and so ended up in the Problems panel
+    private addDiagnostic(watched: WatchedTerminal, matcher: ActiveMatcher, match: RegExpExecArray, alert: OutputAlert): boolean {
+        const { config } = matcher;
+        const file = config.file !== undefined ? match[config.file] : undefined;
+        if (!file) {
+            return false;
+        }
+
+        // Lines and columns in tool output start at 1
+        const line = Math.max(Number(config.line !== undefined && match[config.line]) || 1, 1) - 1;
+        const column = Math.max(Number(config.column !== undefined && match[config.column]) || 1, 1) - 1;
+        const uri = vscode.Uri.file(path.resolve(watched.cwd, file.trim()));
+        const existing = matcher.diagnostics.get(uri.toString()) || [];
+        if (existing.some(diagnostic => diagnostic.range.start.line === line && diagnostic.message === alert.message)) {
+            return true;
+        }
+
+        const diagnostic = new vscode.Diagnostic(new vscode.Range(line, column, line, column), alert.message, DIAGNOSTIC_SEVERITIES[alert.severity]);
+        diagnostic.source = watched.name;
+        matcher.diagnostics.set(uri.toString(), [...existing, diagnostic]);
+        return true;
+    }
+
+    private notify(terminal: vscode.Terminal, name: string, alert: OutputAlert, hasLocation: boolean) {
+        const message = `${name}: ${alert.message}`;
+        const actions = hasLocation ? ['Show Terminal', 'Show Problems'] : ['Show Terminal'];
+        const shown = alert.severity === 'error' ? vscode.window.showErrorMessage(message, ...actions)
+            : alert.severity === 'warning' ? vscode.window.showWarningMessage(message, ...actions)
+            : vscode.window.showInformationMessage(message, ...actions);
+
+        shown.then(answer => {
+            if (answer === 'Show Terminal') {
+                terminal.show();
+            } else if (answer === 'Show Problems') {
+                vscode.commands.executeCommand('workbench.actions.view.problems');
+            }
+        });
+    }
+
+    // Rebuilds the Problems entries from every watched terminal and tells the sidebar
+    private publish() {
+        const byFile = new Map<string, vscode.Diagnostic[]>();
+        for (const { matchers } of this.watched.values()) {
+            for (const matcher of matchers) {
+                for (const [uri, diagnostics] of matcher.diagnostics) {
+                    byFile.set(uri, [...(byFile.get(uri) || []), ...diagnostics]);
+                }
+            }
+        }
+
+        this.diagnostics.clear();
+        for (const [uri, diagnostics] of byFile) {
+            this.diagnostics.set(vscode.Uri.parse(uri), diagnostics);
+        }
+        this.changeEmitter.fire();
+    }
+}
@@ -0,0 +1,122 @@
+import * as net from 'net';
+import { execFile } from 'child_process';
+
+export interface PortHolder {
+    pid: number;
+    // The process name, when the platform tells us
+    name?: string;
+}
+
+// How long a killed process gets to release its port
+const RELEASE_TIMEOUT = 5000;
+const RELEASE_INTERVAL = 250;
+// Loopback servers answer right away, so a slow connection is not one of them
+const CONNECT_TIMEOUT = 500;
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1'];
+
+export class PortChecker {
+    // A port is in use when it cannot be bound, which is exactly what makes a server fail with EADDRINUSE.
+    // macOS and BSD let a wildcard bind succeed next to a server on a loopback address, so those are tried too
+    async isInUse(port: number): Promise<boolean> {
+        if (!await this.canBind(port)) {
+            return true;
+        }
+        const answers = await Promise.all(LOOPBACK_HOSTS.map(host => this.accepts(port, host)));
+        return answers.includes(true);
+    }
+
+    private canBind(port: number): Promise<boolean> {
+        return new Promise(resolve => {
+            const server = net.createServer();
+            server.once('error', (error: NodeJS.ErrnoException) => resolve(error.code !== 'EADDRINUSE'));
+            server.once('listening', () => server.close(() => resolve(true)));
+            server.listen(port);
+        });
+    }
+
+    // Whether something listening on the address takes the connection; no IPv6 or a refusal both mean no
+    private accepts(port: number, host: string): Promise<boolean> {
+        return new Promise(resolve => {
+            const socket = net.connect({ port, host });
+            socket.setTimeout(CONNECT_TIMEOUT);
+            socket.once('connect', () => {
+                socket.destroy();
+                resolve(true);
+            });
+            socket.once('timeout', () => {
+                socket.destroy();
+                resolve(false);
+            });
+            socket.once('error', () => resolve(false));
+        });
+    }
+
+    // Undefined when the tools to look it up are missing or the process belongs to another user
+    async findHolder(port: number): Promise<PortHolder | undefined> {
+        try {
+            return process.platform === 'win32' ? await this.findWindowsHolder(port) : await this.findUnixHolder(port);
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    // Resolves to whether the port was released in time
+    async kill(holder: PortHolder, port: number): Promise<boolean> {
+        try {
+            process.kill(holder.pid);
+        } catch (error) {
+            // Already gone, e.g. because it also held another port that was freed first
+            if ((error as NodeJS.ErrnoException).code !== 'ESRCH') {
+                return false;
+            }
+        }
+
+        const deadline = Date.now() + RELEASE_TIMEOUT;
+        while (Date.now() < deadline) {
+            if (!await this.isInUse(port)) {
+                return true;
+            }
+            await new Promise(resolve => setTimeout(resolve, RELEASE_INTERVAL));
+        }
+        return false;
+    }
+
+    private async findUnixHolder(port: number): Promise<PortHolder | undefined> {
+        // -F prints one field per line: "p<pid>" followed by "c<command>"
+        const output = await this.run('lsof', ['-nP', `-iTCP:${port}`, '-sTCP:LISTEN', '-Fpc']);
+        const pid = /^p(\d+)$/m.exec(output)?.[1];
+        if (!pid) {
+            return undefined;
+        }
+        return { pid: Number(pid), name: /^c(.+)$/m.exec(output)?.[1] };
+    }
+
+    private async findWindowsHolder(port: number): Promise<PortHolder | undefined> {
+        const output = await this.run('netstat', ['-ano', '-p', 'tcp']);
+        const line = output.split(/\r?\n/).find(candidate => {
+            const columns = candidate.trim().split(/\s+/);
+            return columns[3] === 'LISTENING' && columns[1]?.endsWith(`:${port}`);
+        });
+        const pid = line?.trim().split(/\s+/)[4];
+        if (!pid) {
+            return undefined;
+        }
+
+        // CSV without a header: "node.exe","1234","Console","1","52,000 K"
+        const tasks = await this.run('tasklist', ['/FI', `PID eq ${pid}`, '/FO', 'CSV', '/NH']).catch(() => '');
+        return { pid: Number(pid), name: /^"([^"]+)"/.exec(tasks.trim())?.[1] };
+    }
+
+    private run(command: string, args: string[]): Promise<string> {
+        return new Promise((resolve, reject) => {
+            execFile(command, args, { timeout: 5000 }, (error, stdout) => {
+                // lsof exits with 1 when nothing matched, which is not worth failing over
+                if (error && !stdout) {
+                    reject(error);
+                } else {
+                    resolve(stdout);
+                }
+            });
+        });
+    }
+}
@@ -0,0 +1,173 @@
+import * as path from 'path';
+import * as yaml from 'yaml';
+import { ConfigSyntaxError, ParsedConfigSource, SourceRange } from './configParser';
+import { TerminalConfig } from './types';
+
+export const PROCFILE_NAMES = ['Procfile'];
+// In the order docker compose itself looks for them
+export const COMPOSE_FILE_NAMES = ['compose.yaml', 'compose.yml', 'docker-compose.yaml', 'docker-compose.yml'];
+
+const PROCFILE_LINE = /^([A-Za-z0-9_-]+)\s*:\s*(.*)$/;
+
+interface EntryLocation {
+    key: SourceRange;
+    value: SourceRange;
+}
+
+// Reads process definitions other tools already keep (Procfile entries, compose services) as terminals
+export class ProcessFileParser {
+    static isProcessFile(filePath: string): boolean {
+        const fileName = path.basename(filePath);
+        return PROCFILE_NAMES.includes(fileName) || COMPOSE_FILE_NAMES.includes(fileName);
+    }
+
+    static isComposeFile(filePath: string): boolean {
+        return COMPOSE_FILE_NAMES.includes(path.basename(filePath));
+    }
+
+    parse(filePath: string, content: string): ParsedConfigSource {
+        return ProcessFileParser.isComposeFile(filePath)
+            ? this.parseCompose(content)
+            : this.parseProcfile(content);
+    }
+
+    private parseProcfile(content: string): ParsedConfigSource {
+        const terminals: TerminalConfig[] = [];
+        const errors: ConfigSyntaxError[] = [];
+        const locations = new Map<string, EntryLocation>();
+        let offset = 0;
+
+        for (const physical of content.split('\n')) {
+            const line = physical.endsWith('\r') ? physical.slice(0, -1) : physical;
+            const lineOffset = offset;
+            offset += physical.length + 1;
+
+            const trimmed = line.trim();
+            if (!trimmed || trimmed.startsWith('#')) {
+                continue;
+            }
+
+            const indent = line.indexOf(trimmed);
+            const match = PROCFILE_LINE.exec(trimmed);
+            if (!match || !match[2].trim()) {
+                errors.push({
+                    message: 'Expected "name: command"',
+                    range: { offset: lineOffset + indent, length: trimmed.length }
+                });
+                continue;
+            }
+
+            const [, name, command] = match;
+            const nameRange = { offset: lineOffset + indent, length: name.length };
+            const commandRange = { offset: lineOffset + indent + trimmed.indexOf(command, name.length + 1), length: command.trimEnd().length };
+            const at = `terminals/${terminals.length}`;
+            locations.set(at, { key: nameRange, value: nameRange });
+            locations.set(`${at}/name`, { key: nameRange, value: nameRange });
+            locations.set(`${at}/command`, { key: nameRange, value: commandRange });
+
+            terminals.push({ name, command: command.trim() });
+        }
+
+        return this.createSource({ terminals }, content, errors, locations);
+    }
+
+    private parseCompose(content: string): ParsedConfigSource {
+        const document = yaml.parseDocument(content);
+        const errors: ConfigSyntaxError[] = document.errors.map(error => ({
+            message: `YAML syntax error: ${error.message.split('\n')[0]}`,
+            range: { offset: error.pos[0], length: Math.max(error.pos[1] - error.pos[0], 1) }
+        }));
+        const locations = new Map<string, EntryLocation>();
+        const terminals: TerminalConfig[] = [];
+
+        const services = document.get('services', true);
+        if (!yaml.isMap(services)) {
+            if (errors.length === 0) {
+                errors.push({ message: 'No "services" found in the compose file', range: { offset: 0, length: 1 } });
+            }
+            return this.createSource({ terminals }, content, errors, locations);
+        }
+
+        const names = services.items.filter(pair => yaml.isScalar(pair.key)).map(pair => String((pair.key as yaml.Scalar).value));
+        for (const pair of services.items) {
+            if (!yaml.isScalar(pair.key)) {
+                continue;
+            }
+
+            const name = String(pair.key.value);
+            const service = yaml.isMap(pair.value) ? pair.value.toJSON() : {};
+            // Each service runs in its own terminal, so dependencies are started by the launcher rather than by compose
+            const terminal: TerminalConfig = { name, command: `docker compose up --no-deps ${name}` };
+
+            const dependsOn = this.getDependencies(service.depends_on).filter(dependency => names.includes(dependency));
+            if (dependsOn.length > 0) {
+                terminal.dependsOn = dependsOn;
+            }
+            const port = this.getPublishedPort(service.ports);
+            if (port !== undefined) {
+                terminal.readyWhen = { port };
+            }
+
+            const keyRange = this.getRange(pair.key);
+            const valueRange = this.getRange(pair.value) || keyRange;
+            if (keyRange && valueRange) {
+                const at = `terminals/${terminals.length}`;
+                locations.set(at, { key: keyRange, value: keyRange });
+                locations.set(`${at}/name`, { key: keyRange, value: keyRange });
+                locations.set(`${at}/command`, { key: keyRange, value: valueRange });
+            }
+
+            terminals.push(terminal);
+        }
+
+        return this.createSource({ terminals }, content, errors, locations);
+    }
+
+    // depends_on is either a list of names or a map of names to conditions
+    private getDependencies(dependsOn: unknown): string[] {
+        if (Array.isArray(dependsOn)) {
+            return dependsOn.map(String);
+        }
+        return dependsOn && typeof dependsOn === 'object' ? Object.keys(dependsOn) : [];
+    }
+
+    // The first port published on the host: "3000:3000", "127.0.0.1:8080:80" or { published: 3000 }
+    private getPublishedPort(ports: unknown): number | undefined {
+        for (const entry of Array.isArray(ports) ? ports : []) {
+            const published = entry && typeof entry === 'object'
+                ? String(entry.published ?? '')
+                : String(entry).split('/')[0].split(':').slice(-2, -1)[0] ?? '';
+            if (/^\d+$/.test(published)) {
+                return Number(published);
+            }
+        }
+        return undefined;
+    }
+
+    private getRange(node: unknown): SourceRange | undefined {
+        const range = yaml.isNode(node) ? node.range : undefined;
+        return range ? { offset: range[0], length: Math.max(range[1] - range[0], 1) } : undefined;
+    }
+
+    private createSource(
+        config: { terminals: TerminalConfig[] },
+        content: string,
+        errors: ConfigSyntaxError[],
+        locations: Map<string, EntryLocation>
+    ): ParsedConfigSource {
+        return {
+            config,
+            content,
+            errors,
+            locate: (configPath, target = 'value') => {
+                for (let length = configPath.length; length > 0; length--) {
+                    const location = locations.get(configPath.slice(0, length).join('/'));
+                    if (location) {
+                        return location[target];
+                    }
+                }
+                return undefined;
+            }
+        };
+    }
+}
@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { ProfileConfig, TerminalConfig, TerminalGroupConfig, TerminalLauncherConfig } from './types';
+
+export class ProfileManager {
+    getDefaultProfileName(): string | undefined {
+        return vscode.workspace.getConfiguration('terminalLauncher').get<string>('defaultProfile') || undefined;
+    }
+
+    async setDefaultProfileName(name: string | undefined) {
+        await vscode.workspace.getConfiguration('terminalLauncher')
+            .update('defaultProfile', name, vscode.ConfigurationTarget.Workspace);
+    }
+
+    findProfile(config: TerminalLauncherConfig, name: string): ProfileConfig | undefined {
+        return config.profiles?.find(profile => profile.name === name);
+    }
+
+    // The workspace default profile, if this config defines it
+    getDefaultProfile(config: TerminalLauncherConfig): ProfileConfig | undefined {
+        const name = this.getDefaultProfileName();
+        return name ? this.findProfile(config, name) : undefined;
+    }
+
+    applyProfile(config: TerminalLauncherConfig, profile: ProfileConfig): TerminalLauncherConfig {
+        const selected = this.getSelectedTerminalNames(config, profile);
+
+        const apply = (terminal: TerminalConfig): TerminalConfig => {
+            const override = profile.overrides?.[terminal.name];
+            const result: TerminalConfig = { ...terminal };
+
+            if (profile.env || override?.env) {
+                result.env = { ...terminal.env, ...profile.env, ...override?.env };
+            }
+            // An overridden command list replaces whatever the terminal would have run
+            if (override?.commands) {
+                result.commands = override.commands;
+                delete result.command;
+            } else if (override?.command) {
+                result.command = override.command;
+                delete result.commands;
+            }
+
+            return result;
+        };
+
+        return {
+            ...config,
+            groups: config.groups
+                ?.map(group => ({ ...group, terminals: (group.terminals || []).filter(t => selected.has(t.name)).map(apply) }))
+                .filter(group => group.terminals.length > 0),
+            terminals: config.terminals?.filter(terminal => selected.has(terminal.name)).map(apply)
+        };
+    }
+
+    private getSelectedTerminalNames(config: TerminalLauncherConfig, profile: ProfileConfig): Set<string> {
+        const all: { terminal: TerminalConfig, group?: TerminalGroupConfig }[] = [
+            ...(config.groups || []).flatMap(group => (group.terminals || []).map(terminal => ({ terminal, group }))),
+            ...(config.terminals || []).map(terminal => ({ terminal }))
+        ];
+
+        // A profile without any selector keeps every terminal (useful for env-only profiles)
+        const hasSelector = [profile.terminals, profile.groups, profile.tags].some(list => list && list.length > 0);
+        const selected = new Set(all
+            .filter(({ terminal, group }) => !hasSelector
+                || profile.terminals?.includes(terminal.name)
+                || (group?.name !== undefined && profile.groups?.includes(group.name))
+                || terminal.tags?.some(tag => profile.tags?.includes(tag)))
+            .map(({ terminal }) => terminal.name));
+
+        // Pull in everything the selected terminals depend on so the profile can actually start
+        const pending = [...selected];
+        while (pending.length > 0) {
+            const name = pending.pop()!;
+            for (const { terminal } of all.filter(entry => entry.terminal.name === name)) {
+                for (const dependency of terminal.dependsOn || []) {
+                    if (!selected.has(dependency)) {
+                        selected.add(dependency);
+                        pending.push(dependency);
+                    }
+                }
+            }
+        }
+
+        return selected;
+    }
+}
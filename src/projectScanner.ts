@@ -0,0 +1,237 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TerminalColor, TerminalConfig } from './types';
+
+export interface DetectedCommand {
+    terminal: TerminalConfig;
+    // Where it was found, e.g. "package.json scripts (pnpm)"
+    source: string;
+}
+
+const MAX_DEPTH = 2;
+const SKIPPED_DIRECTORIES = ['node_modules', '.git', '.vscode', 'dist', 'build', 'out', 'target', 'vendor', '__pycache__'];
+// npm runs these on its own, as do pre<name> and post<name> around them or around another script; they are never started by hand
+const LIFECYCLE_SCRIPTS = ['prepare', 'prepublishOnly', 'install', 'uninstall', 'version', 'publish', 'pack'];
+
+// Checked in order; the first pattern that matches the script or target name wins
+const STYLES: { pattern: RegExp, color: TerminalColor, icon: string }[] = [
+    { pattern: /test|spec|e2e|jest|vitest|pytest/, color: 'yellow', icon: 'beaker' },
+    { pattern: /lint|format|check|clippy|vet/, color: 'purple', icon: 'checklist' },
+    { pattern: /storybook|docs/, color: 'pink', icon: 'book' },
+    { pattern: /db|database|migrat|seed/, color: 'orange', icon: 'database' },
+    { pattern: /watch/, color: 'blue', icon: 'eye' },
+    { pattern: /build|compile|bundle|dist/, color: 'orange', icon: 'package' },
+    { pattern: /dev|start|serve|\brun\b|\bup\b/, color: 'green', icon: 'server' }
+];
+
+export class ProjectScanner {
+    // Scans the folder and its subfolders (two levels deep) for things worth running in a terminal
+    scan(rootPath: string): DetectedCommand[] {
+        const detected: DetectedCommand[] = [];
+        this.scanDirectory(rootPath, rootPath, 0, detected);
+        return this.makeNamesUnique(detected);
+    }
+
+    private scanDirectory(rootPath: string, directory: string, depth: number, detected: DetectedCommand[]) {
+        const found = [
+            ...this.detectPackageScripts(rootPath, directory),
+            ...this.detectMakeTargets(directory),
+            ...this.detectCargo(directory),
+            ...this.detectGo(directory),
+            ...this.detectPython(directory)
+        ];
+
+        const relative = path.relative(rootPath, directory);
+        if (relative) {
+            // Prefixed with the folder name so "dev" in frontend and backend stay apart
+            for (const { terminal } of found) {
+                terminal.name = `${path.basename(directory)} ${terminal.name}`;
+                terminal.cwd = `./${relative.split(path.sep).join('/')}`;
+            }
+        }
+        detected.push(...found);
+
+        if (depth >= MAX_DEPTH) {
+            return;
+        }
+
+        let entries: fs.Dirent[] = [];
+        try {
+            entries = fs.readdirSync(directory, { withFileTypes: true });
+        } catch (error) {
+            return;
+        }
+
+        entries
+            .filter(entry => entry.isDirectory() && !entry.name.startsWith('.') && !SKIPPED_DIRECTORIES.includes(entry.name))
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .forEach(entry => this.scanDirectory(rootPath, path.join(directory, entry.name), depth + 1, detected));
+    }
+
+    private detectPackageScripts(rootPath: string, directory: string): DetectedCommand[] {
+        const manifest = this.readJson(path.join(directory, 'package.json'));
+        const scripts = manifest?.scripts;
+        if (!scripts || typeof scripts !== 'object') {
+            return [];
+        }
+
+        const manager = this.detectPackageManager(rootPath, directory);
+        return Object.keys(scripts)
+            .filter(script => !this.isLifecycleScript(script, Object.keys(scripts)))
+            .map(script => this.createCommand(
+                script,
+                manager === 'npm' ? `npm run ${script}` : `${manager} ${script}`,
+                `package.json scripts (${manager})`
+            ));
+    }
+
+    // preview, prettier and postcss are scripts of their own unless "view", "ttier" or "css" exist for them to run around
+    private isLifecycleScript(script: string, scripts: string[]): boolean {
+        const wrapped = /^(?:pre|post)(.+)$/.exec(script)?.[1];
+        return LIFECYCLE_SCRIPTS.includes(script)
+            || (wrapped !== undefined && (scripts.includes(wrapped) || LIFECYCLE_SCRIPTS.includes(wrapped)));
+    }
+
+    // The nearest lockfile decides, looking up to the scanned folder for workspaces that share one
+    private detectPackageManager(rootPath: string, directory: string): 'npm' | 'yarn' | 'pnpm' {
+        let current = directory;
+        while (true) {
+            if (fs.existsSync(path.join(current, 'pnpm-lock.yaml'))) {
+                return 'pnpm';
+            }
+            if (fs.existsSync(path.join(current, 'yarn.lock'))) {
+                return 'yarn';
+            }
+            if (fs.existsSync(path.join(current, 'package-lock.json'))) {
+                return 'npm';
+            }
+            if (current === rootPath || path.dirname(current) === current) {
+                return 'npm';
+            }
+            current = path.dirname(current);
+        }
+    }
+
+    private detectMakeTargets(directory: string): DetectedCommand[] {
+        const content = this.readText(path.join(directory, 'Makefile'));
+        if (content === undefined) {
+            return [];
+        }
+
+        const targets = new Set<string>();
+        // "target:" or "target::" at the start of a line, but not variable assignments (":=", "::=", ":::=") or pattern rules
+        for (const match of content.matchAll(/^([A-Za-z0-9][\w.-]*)\s*:(?!:*=)/gm)) {
+            if (!match[1].startsWith('.')) {
+                targets.add(match[1]);
+            }
+        }
+
+        return [...targets].map(target => this.createCommand(target, `make ${target}`, 'Makefile'));
+    }
+
+    private detectCargo(directory: string): DetectedCommand[] {
+        if (!fs.existsSync(path.join(directory, 'Cargo.toml'))) {
+            return [];
+        }
+        return [
+            this.createCommand('cargo run', 'cargo run', 'Cargo.toml'),
+            this.createCommand('cargo test', 'cargo test', 'Cargo.toml'),
+            this.createCommand('cargo build', 'cargo build', 'Cargo.toml')
+        ];
+    }
+
+    private detectGo(directory: string): DetectedCommand[] {
+        if (!fs.existsSync(path.join(directory, 'go.mod'))) {
+            return [];
+        }
+        return [
+            this.createCommand('go run', 'go run .', 'go.mod'),
+            this.createCommand('go test', 'go test ./...', 'go.mod'),
+            this.createCommand('go build', 'go build ./...', 'go.mod')
+        ];
+    }
+
+    private detectPython(directory: string): DetectedCommand[] {
+        const content = this.readText(path.join(directory, 'pyproject.toml'));
+        if (content === undefined) {
+            return [];
+        }
+
+        // Run through the project's tool so its virtual environment is used
+        const runner = fs.existsSync(path.join(directory, 'uv.lock')) ? 'uv run '
+            : /^\[tool\.poetry\]/m.test(content) || fs.existsSync(path.join(directory, 'poetry.lock')) ? 'poetry run '
+            : '';
+        const source = `pyproject.toml${runner ? ` (${runner.split(' ')[0]})` : ''}`;
+
+        const commands = this.readTomlKeys(content, ['project.scripts', 'tool.poetry.scripts'])
+            .map(script => this.createCommand(script, `${runner}${script}`, source));
+        if (/pytest/.test(content)) {
+            commands.push(this.createCommand('pytest', `${runner}pytest`, source));
+        }
+        return commands;
+    }
+
+    // Keys of the given tables; enough TOML for script tables, which are flat "name = value" lines
+    private readTomlKeys(content: string, tables: string[]): string[] {
+        const keys: string[] = [];
+        let inTable = false;
+
+        for (const line of content.split(/\r?\n/)) {
+            const trimmed = line.trim();
+            const header = /^\[([^\]]+)\]$/.exec(trimmed);
+            if (header) {
+                inTable = tables.includes(header[1].trim());
+                continue;
+            }
+
+            const entry = /^["']?([A-Za-z0-9_.-]+)["']?\s*=/.exec(trimmed);
+            if (inTable && entry) {
+                keys.push(entry[1]);
+            }
+        }
+
+        return keys;
+    }
+
+    private createCommand(name: string, command: string, source: string): DetectedCommand {
+        const style = STYLES.find(candidate => candidate.pattern.test(name.toLowerCase()));
+        return {
+            terminal: {
+                name,
+                command,
+                color: style?.color || 'blue',
+                icon: style?.icon || 'terminal'
+            },
+            source
+        };
+    }
+
+    private makeNamesUnique(detected: DetectedCommand[]): DetectedCommand[] {
+        const seen = new Map<string, number>();
+        for (const { terminal } of detected) {
+            const count = (seen.get(terminal.name) || 0) + 1;
+            seen.set(terminal.name, count);
+            if (count > 1) {
+                terminal.name = `${terminal.name} (${count})`;
+            }
+        }
+        return detected;
+    }
+
+    private readJson(filePath: string): any {
+        const content = this.readText(filePath);
+        try {
+            return content === undefined ? undefined : JSON.parse(content);
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    private readText(filePath: string): string | undefined {
+        try {
+            return fs.readFileSync(filePath, 'utf8');
+        } catch (error) {
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,164 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as path from 'path';
+import { ReadinessConfig } from './types';
+
+const DEFAULT_TIMEOUT = 60000;
+const DEFAULT_INTERVAL = 1000;
+const MAX_OUTPUT_BUFFER = 8192;
+
+export class ReadinessChecker {
+    // Starts watching right away so output printed before the promise is awaited is not missed
+    waitUntilReady(terminal: vscode.Terminal, readiness: ReadinessConfig, cwd: string): Promise<void> {
+        const timeout = readiness.timeout ?? DEFAULT_TIMEOUT;
+        const interval = readiness.interval ?? DEFAULT_INTERVAL;
+
+        return new Promise((resolve, reject) => {
+            const disposables: vscode.Disposable[] = [];
+            let settled = false;
+            let checking = false;
+            let outputMatched = !readiness.outputPattern;
+
+            const finish = (error?: Error) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                clearTimeout(timer);
+                clearInterval(poller);
+                disposables.forEach(disposable => disposable.dispose());
+                error ? reject(error) : resolve();
+            };
+
+            const poll = async () => {
+                if (settled || checking || !outputMatched) {
+                    return;
+                }
+                checking = true;
+                try {
+                    if (await this.checkConditions(readiness, cwd)) {
+                        finish();
+                    }
+                } finally {
+                    checking = false;
+                }
+            };
+
+            const timer = setTimeout(() => {
+                let reason = `not ready after ${timeout / 1000}s (${this.describe(readiness)})`;
+                if (readiness.outputPattern && !terminal.shellIntegration) {
+                    reason += '; matching terminal output requires shell integration';
+                }
+                finish(new Error(reason));
+            }, timeout);
+            const poller = setInterval(poll, interval);
+
+            disposables.push(vscode.window.onDidCloseTerminal(closed => {
+                if (closed === terminal) {
+                    finish(new Error('terminal closed before it became ready'));
+                }
+            }));
+
+            if (readiness.outputPattern) {
+                let pattern: RegExp;
+                try {
+                    pattern = new RegExp(readiness.outputPattern, 'm');
+                } catch (error) {
+                    finish(new Error(`invalid output pattern: ${error}`));
+                    return;
+                }
+
+                // Every command run in the terminal (including ones sent with sendText) shows up here once shell integration is active
+                disposables.push(vscode.window.onDidStartTerminalShellExecution(async event => {
+                    if (event.terminal !== terminal) {
+                        return;
+                    }
+
+                    let buffer = '';
+                    for await (const data of event.execution.read()) {
+                        if (settled) {
+                            break;
+                        }
+                        buffer = (buffer + stripAnsi(data)).slice(-MAX_OUTPUT_BUFFER);
+                        if (pattern.test(buffer)) {
+                            outputMatched = true;
+                            poll();
+                            break;
+                        }
+                    }
+                }));
+            }
+
+            poll();
+        });
+    }
+
+    describe(readiness: ReadinessConfig): string {
+        const conditions: string[] = [];
+        if (readiness.port !== undefined) {
+            conditions.push(`port ${readiness.host || 'localhost'}:${readiness.port}`);
+        }
+        if (readiness.url) {
+            conditions.push(`URL ${readiness.url}`);
+        }
+        if (readiness.outputPattern) {
+            conditions.push(`output /${readiness.outputPattern}/`);
+        }
+        if (readiness.file) {
+            conditions.push(`file ${readiness.file}`);
+        }
+        return conditions.join(', ') || 'no condition';
+    }
+
+    private async checkConditions(readiness: ReadinessConfig, cwd: string): Promise<boolean> {
+        if (readiness.port !== undefined && !await this.checkPort(readiness.host || 'localhost', readiness.port)) {
+            return false;
+        }
+        if (readiness.url && !await this.checkUrl(readiness.url)) {
+            return false;
+        }
+        if (readiness.file && !fs.existsSync(path.resolve(cwd, readiness.file))) {
+            return false;
+        }
+        return true;
+    }
+
+    // Also used by health checks, with their own timeout
+    checkPort(host: string, port: number, timeout = DEFAULT_INTERVAL): Promise<boolean> {
+        return new Promise(resolve => {
+            const socket = net.connect({ host, port });
+            const done = (result: boolean) => {
+                socket.destroy();
+                resolve(result);
+            };
+            socket.setTimeout(timeout, () => done(false));
+            socket.once('connect', () => done(true));
+            socket.once('error', () => done(false));
+        });
+    }
+
+    checkUrl(url: string, timeout = DEFAULT_INTERVAL * 5): Promise<boolean> {
+        return new Promise(resolve => {
+            try {
+                const client = url.startsWith('https:') ? https : http;
+                const request = client.get(url, response => {
+                    response.resume();
+                    const status = response.statusCode || 0;
+                    resolve(status >= 200 && status < 300);
+                });
+                request.setTimeout(timeout, () => request.destroy());
+                request.once('error', () => resolve(false));
+            } catch (error) {
+                resolve(false);
+            }
+        });
+    }
+}
+
+export function stripAnsi(text: string): string {
+    // CSI sequences (colors, cursor movement) and OSC sequences (titles, shell integration markers)
+    return text.replace(/\x1b\[[0-9;?]*[ -\/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g, '');
+}
@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigParser } from './configParser';
+import { ProfileManager } from './profileManager';
+import { LaunchRecord, TerminalManager } from './terminalManager';
+import { TrustManager } from './trustManager';
+
+const SESSION_KEY = 'terminalLauncher.session';
+
+export type RestorePolicy = 'always' | 'never' | 'ask';
+
+export interface SessionProject {
+    // Undefined for terminals launched without a project prefix (the auto-launch on startup)
+    projectPath?: string;
+    profileName?: string;
+    groups: string[];
+    terminals: string[];
+    duplicateAction?: string;
+}
+
+export class SessionManager implements vscode.Disposable {
+    // What ran last time; kept until this session launches something of its own
+    private previous: SessionProject[];
+    private current: SessionProject[] = [];
+    private launchListener: vscode.Disposable;
+
+    constructor(
+        private state: vscode.Memento,
+        private configParser: ConfigParser,
+        private terminalManager: TerminalManager,
+        private profileManager: ProfileManager,
+        private trustManager: TrustManager
+    ) {
+        this.previous = state.get<SessionProject[]>(SESSION_KEY, []);
+        this.launchListener = terminalManager.onDidLaunchTerminals(record => this.record(record));
+    }
+
+    getRestorePolicy(): RestorePolicy {
+        return vscode.workspace.getConfiguration('terminalLauncher').get<RestorePolicy>('restoreSession', 'ask');
+    }
+
+    async setRestorePolicy(policy: RestorePolicy) {
+        await vscode.workspace.getConfiguration('terminalLauncher')
+            .update('restoreSession', policy, vscode.ConfigurationTarget.Workspace);
+    }
+
+    hasPreviousSession(): boolean {
+        return this.previous.length > 0;
+    }
+
+    // Resolves to true when the previous session should be restored; "Always" and "Never" are remembered
+    async askToRestore(): Promise<boolean> {
+        const count = this.previous.reduce((total, project) => total + project.terminals.length, 0);
+        const answer = await vscode.window.showInformationMessage(
+            `Restore ${count} terminal${count > 1 ? 's' : ''} from the last session (${this.describe()})?`,
+            'Restore',
+            'Always',
+            'Never'
+        );
+
+        if (answer === 'Always') {
+            await this.setRestorePolicy('always');
+        } else if (answer === 'Never') {
+            await this.setRestorePolicy('never');
+        }
+
+        return answer === 'Restore' || answer === 'Always';
+    }
+
+    async restore() {
+        const locations = await this.configParser.findAllConfigFiles();
+        const missing: string[] = [];
+
+        for (const project of this.previous) {
+            const configPath = project.projectPath
+                ? locations.find(location => path.dirname(location.path) === project.projectPath)?.path
+                : await this.configParser.findConfigFile();
+            const config = configPath ? await this.configParser.parseConfig(configPath) : undefined;
+            if (!config) {
+                missing.push(project.projectPath ? path.basename(project.projectPath) : 'workspace');
+                continue;
+            }
+
+            // Terminals since removed from the config are dropped; a removed profile falls back to the plain config
+            const profile = project.profileName ? this.profileManager.findProfile(config, project.profileName) : undefined;
+            const effective = profile ? this.profileManager.applyProfile(config, profile) : config;
+            const only = this.terminalManager.getLaunchEntries(effective)
+                .map(entry => entry.config)
+                .filter(terminal => project.terminals.includes(terminal.name));
+            if (only.length === 0 || !await this.trustManager.ensureApproved(configPath!, config)) {
+                continue;
+            }
+
+            await this.terminalManager.launchTerminals(effective, project.projectPath, {
+                only,
+                profileName: profile?.name,
+                duplicateAction: project.duplicateAction,
+                configDir: path.dirname(configPath!)
+            });
+        }
+
+        if (missing.length > 0) {
+            vscode.window.showWarningMessage(`Could not restore terminals for ${missing.join(', ')}: configuration file not found.`);
+        }
+    }
+
+    dispose() {
+        this.launchListener.dispose();
+    }
+
+    private record(launch: LaunchRecord) {
+        const existing = this.current.find(project => project.projectPath === launch.projectBasePath);
+
+        // Launching a few more terminals adds to what the project already has; a full launch starts over
+        if (existing && launch.partial && existing.profileName === launch.profileName) {
+            existing.groups = [...new Set([...existing.groups, ...launch.groups])];
+            existing.terminals = [...new Set([...existing.terminals, ...launch.terminals])];
+            existing.duplicateAction = launch.duplicateAction;
+        } else {
+            this.current = this.current.filter(project => project !== existing);
+            this.current.push({
+                projectPath: launch.projectBasePath,
+                profileName: launch.profileName,
+                groups: launch.groups,
+                terminals: launch.terminals,
+                duplicateAction: launch.duplicateAction
+            });
+        }
+
+        this.state.update(SESSION_KEY, this.current);
+    }
+
+    private describe(): string {
+        return this.previous.map(project => {
+            const name = project.projectPath ? path.basename(project.projectPath) : 'workspace';
+            const details = [project.profileName && `profile ${project.profileName}`, ...project.groups].filter(Boolean);
+            return details.length > 0 ? `${name}: ${details.join(', ')}` : name;
+        }).join(', ');
+    }
+}
@@ -1,56 +1,588 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { TerminalConfig, TerminalGroupConfig, TerminalLauncherConfig } from './types';
+import { CommandRunner } from './commandRunner';
+import { ConditionEvaluator } from './conditionEvaluator';
+import { DependencyGraph } from './dependencyGraph';
+import { EnvFileLoader } from './envFileLoader';
+import { HealthMonitor, HealthStatus, UnhealthyEvent } from './healthMonitor';
+import { HookRunner } from './hookRunner';
+import { OutputLogger } from './outputLogger';
+import { OutputAlert, OutputMatcher } from './outputMatcher';
+import { PortChecker, PortHolder } from './portChecker';
+import { ReadinessChecker } from './readinessChecker';
+import { EnvFile, HOOK_NAMES, HookConfig, HookName, StopSignal, TerminalConfig, TerminalGroupConfig, TerminalLauncherConfig } from './types';
+import { InputCancelledError, VariableResolver } from './variableResolver';
 
-export class TerminalManager {
-    private terminals: vscode.Terminal[] = [];
+// "idle" terminals finished the commands they were launched with but their shell is still open
+export type TerminalStatus = 'running' | 'idle' | 'stopping' | 'stopped' | 'exited' | 'restarting';
+
+export interface TerminalState {
+    status: TerminalStatus;
+    exitCode?: number;
+    restartCount?: number;
+    lastExitCode?: number;
+    // The most severe problem the terminal's output matchers currently report
+    alert?: OutputAlert;
+    // Only for terminals with a healthCheck
+    health?: { status: HealthStatus, reason?: string };
+}
+
+const DEFAULT_MAX_RESTARTS = 5;
+const DEFAULT_RESTART_DELAY = 1000;
+const MAX_RESTART_DELAY = 30000;
+// A terminal that stayed up this long starts over with a fresh retry budget
+const STABLE_UPTIME = 60000;
+// Ctrl+C in the terminal; the user stopped it on purpose
+const INTERRUPTED_EXIT_CODE = 130;
+const DEFAULT_STOP_GRACE_PERIOD = 5000;
+// What is typed into the terminal to deliver each stop signal
+const STOP_SIGNAL_KEYS: Record<StopSignal, string> = {
+    SIGINT: '\x03',
+    SIGQUIT: '\x1c'
+};
+
+export interface LaunchOptions {
+    // Limits the launch to some of the config's terminals while keeping their group placement
+    only?: TerminalConfig[];
+    // The profile the config was narrowed to, remembered so later changes can be compared like for like
+    profileName?: string;
+    // Answer to use if some of the terminals already exist, instead of asking
+    duplicateAction?: string;
+    // Directory of the config file, which ${configDir} refers to; the project path when not given
+    configDir?: string;
+}
+
+// What a launch ended up starting, reported so the session can be restored later
+export interface LaunchRecord {
+    projectBasePath?: string;
+    profileName?: string;
+    groups: string[];
+    terminals: string[];
+    duplicateAction: string;
+    // True when the launch was limited to some of the config's terminals
+    partial: boolean;
+}
+
+// What a terminal was launched from, carried over when it is restarted or replaced
+export interface TerminalOrigin {
+    // The definition before variables were substituted
+    sourceConfig?: TerminalConfig;
+    groupName?: string;
+    profileName?: string;
+    inputValues?: Record<string, string>;
+}
+
+export interface RunningTerminal extends TerminalOrigin {
+    config: TerminalConfig;
+    projectBasePath?: string;
+}
+
+// The config or one of its groups, with its hooks resolved for this launch
+interface HookOwner {
+    // For messages: the project name or the group's
+    label: string;
+    // Undefined for the config itself, whose hooks cover all of its terminals
+    groupName?: string;
+    hooks: Partial<Record<HookName, HookConfig>>;
+}
+
+interface PendingStopHook {
+    owner: HookOwner;
+    projectBasePath?: string;
+    basePath: string;
+}
+
+interface TrackedTerminal extends TerminalState, TerminalOrigin {
+    terminal: vscode.Terminal;
+    config: TerminalConfig;
+    projectBasePath?: string;
+    startedAt: number;
+    // Set while the terminal is being stopped, so every caller waits for the same shutdown
+    shutdown?: Promise<void>;
+}
+
+export class TerminalManager implements vscode.Disposable {
+    private tracked = new Map<string, TrackedTerminal>();
+    private changeEmitter = new vscode.EventEmitter<void>();
+    private launchEmitter = new vscode.EventEmitter<LaunchRecord>();
+    private closeListener: vscode.Disposable;
+    private readinessChecker = new ReadinessChecker();
+    private commandRunner = new CommandRunner();
+    private hookRunner = new HookRunner();
+    private portChecker = new PortChecker();
+    private outputMatcher = new OutputMatcher();
+    private healthMonitor = new HealthMonitor(this.readinessChecker);
+    // onStop hooks of launched configs and groups, run once none of their terminals is left
+    private stopHooks = new Map<string, PendingStopHook>();
+    private restartTimers = new Map<string, NodeJS.Timeout>();
+    // Terminals whose shell is running a command, as reported by shell integration
+    private busyTerminals = new Set<vscode.Terminal>();
+    private executionListeners: vscode.Disposable[];
+
+    readonly onDidChangeTerminals = this.changeEmitter.event;
+    readonly onDidLaunchTerminals = this.launchEmitter.event;
+
+    constructor(private outputLogger: OutputLogger) {
+        this.closeListener = vscode.window.onDidCloseTerminal(closed => {
+            this.busyTerminals.delete(closed);
+            for (const entry of this.tracked.values()) {
+                if (entry.terminal === closed) {
+                    // A process that ended on its own is "exited"; anything closed by the user or by us is "stopped"
+                    const exitStatus = closed.exitStatus;
+                    const exitedOnItsOwn = exitStatus?.reason === vscode.TerminalExitReason.Process && entry.status !== 'stopping';
+                    entry.status = exitedOnItsOwn ? 'exited' : 'stopped';
+                    entry.exitCode = exitStatus?.code;
+                    this.changeEmitter.fire();
+
+                    if (exitedOnItsOwn) {
+                        this.handleExit(entry, exitStatus?.code);
+                    } else if (exitStatus?.reason === vscode.TerminalExitReason.User) {
+                        this.runStopHooks(entry.projectBasePath);
+                    }
+                }
+            }
+        });
+        this.executionListeners = [
+            vscode.window.onDidStartTerminalShellExecution(event => {
+                this.busyTerminals.add(event.terminal);
+                this.handleCommandStarted(event.terminal);
+            }),
+            vscode.window.onDidEndTerminalShellExecution(event => this.busyTerminals.delete(event.terminal)),
+            this.outputMatcher.onDidChange(() => this.changeEmitter.fire()),
+            this.healthMonitor.onDidChange(() => this.changeEmitter.fire()),
+            this.healthMonitor.onDidBecomeUnhealthy(event => this.offerUnhealthyRestart(event))
+        ];
+    }
+
+    async launchTerminals(config: TerminalLauncherConfig, projectBasePath?: string, options: LaunchOptions = {}) {
+        const { only, profileName } = options;
+        const basePath = projectBasePath || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+        const entries = this.applyConditions(
+            this.getLaunchEntries(config).filter(entry => !only || only.includes(entry.config)),
+            basePath
+        );
+        if (entries.length === 0) {
+            return;
+        }
 
-    async launchTerminals(config: TerminalLauncherConfig, projectBasePath?: string) {
         // Check for existing terminals before launching
-        const duplicateAction = await this.checkForDuplicateTerminals(config, projectBasePath);
+        const duplicateAction = await this.checkForDuplicateTerminals(
+            { terminals: entries.map(entry => entry.config) },
+            projectBasePath,
+            options.duplicateAction
+        );
         if (duplicateAction === 'cancel') {
             return;
         }
 
-        if (config.groups && config.groups.length > 0) {
-            // Launch grouped terminals
-            for (const group of config.groups) {
-                await this.launchTerminalGroup(group, projectBasePath, duplicateAction);
+        // Substitute ${...} variables (prompting for inputs) before anything starts
+        const configDir = options.configDir || basePath;
+        const resolver = new VariableResolver({ projectDir: basePath, configDir, inputs: config.inputs });
+        const resolvedConfigs = new Map<TerminalConfig, TerminalConfig>();
+        let owners: HookOwner[];
+        try {
+            for (const entry of entries) {
+                resolvedConfigs.set(entry.config, await this.resolveTerminal(config, entry, resolver, configDir));
             }
-        } else if (config.terminals && config.terminals.length > 0) {
-            // Launch ungrouped terminals
-            for (let i = 0; i < config.terminals.length; i++) {
-                const terminal = await this.createTerminal(config.terminals[i], projectBasePath, duplicateAction);
-                if (terminal) {
-                    this.terminals.push(terminal);
-                    terminal.show(i === 0);
+            owners = await this.resolveHooks(config, entries, resolver, projectBasePath);
+        } catch (error) {
+            if (!(error instanceof InputCancelledError)) {
+                vscode.window.showErrorMessage(`Cannot launch terminals: ${error instanceof Error ? error.message : error}`);
+            }
+            return;
+        }
+
+        // Everything that can stop the launch is settled before a preLaunch hook gets to change anything
+        const graph = new DependencyGraph(entries.map(entry => entry.config));
+        let ordered: TerminalConfig[];
+        try {
+            ordered = graph.sort();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Cannot launch terminals: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+
+        const portConflicts = new Set<TerminalConfig>();
+        for (const terminalConfig of ordered) {
+            if (!await this.checkPorts(terminalConfig, projectBasePath, duplicateAction)) {
+                portConflicts.add(terminalConfig);
+            }
+        }
+        if (portConflicts.size === ordered.length) {
+            return;
+        }
+
+        for (const owner of owners) {
+            if (owner.hooks.preLaunch && !await this.runHook(owner, 'preLaunch', basePath, 'Launch aborted: the')) {
+                return;
+            }
+        }
+
+        // Resolves once a terminal is ready for its dependents; rejects if it never got there
+        const readiness = new Map<string, Promise<void>>();
+        const launchedPerGroup = new Map<TerminalGroupConfig | undefined, number>();
+        const launched: { config: TerminalConfig, group?: TerminalGroupConfig }[] = [];
+
+        for (const terminalConfig of ordered) {
+            const group = entries.find(entry => entry.config === terminalConfig)?.group;
+
+            if (portConflicts.has(terminalConfig)) {
+                readiness.set(terminalConfig.name, this.handled(Promise.reject(new Error('was skipped because its port is in use'))));
+                continue;
+            }
+
+            const blocker = await this.waitForDependencies(terminalConfig, graph, readiness, projectBasePath);
+            if (blocker) {
+                vscode.window.showErrorMessage(`Terminal "${terminalConfig.name}" was not started: ${blocker}`);
+                readiness.set(terminalConfig.name, this.handled(Promise.reject(new Error('was not started'))));
+                continue;
+            }
+
+            const launchedInGroup = launchedPerGroup.get(group) || 0;
+            if (group && launchedInGroup > 0) {
+                // Small delay between creating terminals of the same group
+                await new Promise(resolve => setTimeout(resolve, 200));
+            }
+
+            const terminal = await this.createTerminal(resolvedConfigs.get(terminalConfig)!, projectBasePath, duplicateAction, {
+                sourceConfig: terminalConfig,
+                groupName: group && this.getGroupName(group),
+                profileName,
+                inputValues: resolver.getInputValues()
+            });
+            if (!terminal) {
+                // Skipped because it is already running counts as ready; anything else is a failed start
+                const alreadyRunning = this.findExistingTerminal(this.getTerminalName(terminalConfig, projectBasePath));
+                readiness.set(terminalConfig.name, this.handled(alreadyRunning
+                    ? Promise.resolve()
+                    : Promise.reject(new Error('failed to start'))));
+                if (alreadyRunning) {
+                    launched.push({ config: terminalConfig, group });
                 }
+                continue;
+            }
+            launched.push({ config: terminalConfig, group });
+
+            // Show the first terminal; the rest of a group is split next to it
+            terminal.show(launchedInGroup === 0);
+            launchedPerGroup.set(group, launchedInGroup + 1);
+
+            // postLaunch hooks wait for the terminals they cover to be ready
+            const awaitedByHook = owners.some(owner => owner.hooks.postLaunch
+                && (owner.groupName === undefined || (group !== undefined && owner.groupName === this.getGroupName(group))));
+            if (terminalConfig.readyWhen && (graph.hasDependents(terminalConfig) || awaitedByHook)) {
+                const options = terminal.creationOptions as vscode.TerminalOptions;
+                const cwd = typeof options.cwd === 'string' ? options.cwd : options.cwd?.fsPath || '';
+                readiness.set(terminalConfig.name, this.handled(
+                    this.readinessChecker.waitUntilReady(terminal, terminalConfig.readyWhen, cwd)
+                ));
+            } else {
+                readiness.set(terminalConfig.name, Promise.resolve());
             }
         }
+
+        if (launched.length > 0) {
+            this.rememberStopHooks(owners, projectBasePath, basePath);
+            this.runPostLaunchHooks(owners, launched, readiness, basePath);
+            this.launchEmitter.fire({
+                projectBasePath,
+                profileName,
+                groups: [...new Set(launched.map(entry => entry.group?.name).filter((name): name is string => name !== undefined))],
+                terminals: launched.map(entry => entry.config.name),
+                duplicateAction,
+                partial: only !== undefined
+            });
+        }
     }
 
-    private async launchTerminalGroup(group: TerminalGroupConfig, projectBasePath?: string, duplicateAction?: string) {
-        if (!group.terminals || group.terminals.length === 0) {
-            return;
+    // Substitutes variables and merges env files: the config's, the group's, the terminal's, then the inline env on top.
+    // Env file paths are relative to the config file, where approval and validation look for them too
+    async resolveTerminal(
+        config: TerminalLauncherConfig,
+        entry: { config: TerminalConfig, group?: TerminalGroupConfig },
+        resolver: VariableResolver,
+        configDir: string
+    ): Promise<TerminalConfig> {
+        const resolved = await resolver.resolveTerminal(entry.config);
+        const files: EnvFile[] = [];
+        for (const file of [config.envFile, entry.group?.envFile, entry.config.envFile].flatMap(value => value ?? [])) {
+            const filePath = typeof file === 'string' ? file : file.path;
+            // What the file sets is approved along with the commands, which can only happen if its path is known up front
+            if (filePath.includes('${input:')) {
+                throw new Error(`Env file paths cannot use inputs: ${filePath}`);
+            }
+            files.push(typeof file === 'string' ? await resolver.resolve(file) : { ...file, path: await resolver.resolve(file.path) });
+        }
+        if (files.length > 0) {
+            resolved.env = { ...new EnvFileLoader(configDir).load(files), ...resolved.env };
+        }
+        return resolved;
+    }
+
+    // Leaves out terminals whose "when" (or their group's) does not hold, and terminals that depend on them
+    private applyConditions(
+        entries: { config: TerminalConfig, group?: TerminalGroupConfig }[],
+        basePath: string
+    ): { config: TerminalConfig, group?: TerminalGroupConfig }[] {
+        const evaluator = new ConditionEvaluator(basePath);
+        const skipped: string[] = [];
+        const skippedNames = new Set<string>();
+        const groupReasons = new Map<TerminalGroupConfig, string | undefined>();
+
+        let remaining = entries.filter(({ config, group }) => {
+            if (group?.when) {
+                if (!groupReasons.has(group)) {
+                    const reason = evaluator.check(group.when);
+                    groupReasons.set(group, reason);
+                    if (reason) {
+                        skipped.push(`group "${group.name || group.terminals?.[0]?.name}" (${reason})`);
+                    }
+                }
+                if (groupReasons.get(group)) {
+                    skippedNames.add(config.name);
+                    return false;
+                }
+            }
+
+            const reason = config.when && evaluator.check(config.when);
+            if (reason) {
+                skipped.push(`"${config.name}" (${reason})`);
+                skippedNames.add(config.name);
+            }
+            return !reason;
+        });
+
+        // A skipped terminal never becomes ready, so whatever depends on it is skipped too
+        let changed = true;
+        while (changed) {
+            changed = false;
+            remaining = remaining.filter(({ config }) => {
+                const dependency = (config.dependsOn || []).find(name => skippedNames.has(name));
+                if (dependency) {
+                    skipped.push(`"${config.name}" (it depends on "${dependency}", which was skipped)`);
+                    skippedNames.add(config.name);
+                    changed = true;
+                }
+                return !dependency;
+            });
+        }
+
+        if (skipped.length > 0) {
+            vscode.window.showInformationMessage(`Skipped ${skipped.join(', ')}.`);
         }
+        return remaining;
+    }
 
-        // Create all terminals in the group normally (VS Code will handle grouping them visually)
-        for (let i = 0; i < group.terminals.length; i++) {
-            const terminal = await this.createTerminal(group.terminals[i], projectBasePath, duplicateAction);
-            if (terminal) {
-                this.terminals.push(terminal);
-                // Show the first terminal, others will be available as tabs
-                terminal.show(i === 0);
-                
-                // Small delay between creating terminals
-                if (i < group.terminals.length - 1) {
-                    await new Promise(resolve => setTimeout(resolve, 200));
+    private async resolveHooks(
+        config: TerminalLauncherConfig,
+        entries: { config: TerminalConfig, group?: TerminalGroupConfig }[],
+        resolver: VariableResolver,
+        projectBasePath?: string
+    ): Promise<HookOwner[]> {
+        const owners = [await this.resolveHookOwner(config, path.basename(projectBasePath || '') || 'the workspace', undefined, resolver)];
+
+        // Groups only count when some of their terminals are part of this launch
+        const groups = new Set(entries.map(entry => entry.group).filter((group): group is TerminalGroupConfig => group !== undefined));
+        for (const group of groups) {
+            const label = `group "${group.name || group.terminals?.[0]?.name}"`;
+            owners.push(await this.resolveHookOwner(group, label, this.getGroupName(group), resolver));
+        }
+
+        return owners;
+    }
+
+    private async resolveHookOwner(
+        source: TerminalLauncherConfig | TerminalGroupConfig,
+        label: string,
+        groupName: string | undefined,
+        resolver: VariableResolver
+    ): Promise<HookOwner> {
+        const hooks: Partial<Record<HookName, HookConfig>> = {};
+        for (const name of HOOK_NAMES) {
+            const hook = source[name];
+            if (hook !== undefined) {
+                hooks[name] = await resolver.resolveHook(hook);
+            }
+        }
+        return { label, groupName, hooks };
+    }
+
+    // Resolves to whether the hook succeeded; failures are reported with the given prefix
+    private async runHook(owner: HookOwner, name: HookName, basePath: string, prefix = 'The'): Promise<boolean> {
+        const result = await this.hookRunner.run(owner.hooks[name]!, `${name} of ${owner.label}`, basePath);
+        if (!result.success) {
+            vscode.window.showErrorMessage(`${prefix} ${name} hook of ${owner.label} ${result.reason}.`, 'Show Output').then(answer => {
+                if (answer === 'Show Output') {
+                    this.hookRunner.showOutput();
                 }
+            });
+        }
+        return result.success;
+    }
+
+    // Runs in the background after the launch: group hooks first, then the config's, each once its terminals are ready
+    private async runPostLaunchHooks(
+        owners: HookOwner[],
+        launched: { config: TerminalConfig, group?: TerminalGroupConfig }[],
+        readiness: Map<string, Promise<void>>,
+        basePath: string
+    ) {
+        const ordered = [...owners.filter(owner => owner.groupName !== undefined), ...owners.filter(owner => owner.groupName === undefined)];
+        for (const owner of ordered.filter(owner => owner.hooks.postLaunch)) {
+            const covered = launched
+                .filter(entry => owner.groupName === undefined || (entry.group !== undefined && this.getGroupName(entry.group) === owner.groupName))
+                .map(entry => entry.config.name);
+            const results = await Promise.allSettled(covered.map(name => readiness.get(name)));
+            const notReady = covered.filter((_, index) => results[index].status === 'rejected');
+            if (notReady.length > 0) {
+                vscode.window.showWarningMessage(`Skipped the postLaunch hook of ${owner.label}: ${notReady.map(name => `"${name}"`).join(', ')} did not become ready.`);
+                continue;
+            }
+            await this.runHook(owner, 'postLaunch', basePath);
+        }
+    }
+
+    private rememberStopHooks(owners: HookOwner[], projectBasePath: string | undefined, basePath: string) {
+        for (const owner of owners.filter(owner => owner.hooks.onStop)) {
+            this.stopHooks.set(`${projectBasePath || ''}::${owner.groupName ?? ''}`, { owner, projectBasePath, basePath });
+        }
+    }
+
+    // onStop hooks run once nothing they cover is running any more; terminals waiting to restart still count.
+    // Group hooks run before the config's.
+    private async runStopHooks(projectBasePath?: string) {
+        const pending = [...this.stopHooks.entries()]
+            .filter(([, hook]) => hook.projectBasePath === projectBasePath)
+            .sort(([, a], [, b]) => Number(a.owner.groupName === undefined) - Number(b.owner.groupName === undefined));
+
+        for (const [key, { owner, basePath }] of pending) {
+            const stillActive = [...this.tracked.values()].some(entry => entry.projectBasePath === projectBasePath
+                && entry.status !== 'stopped' && entry.status !== 'exited'
+                && (owner.groupName === undefined || entry.groupName === owner.groupName));
+            if (stillActive || this.stopHooks.get(key)?.owner !== owner) {
+                continue;
             }
+
+            this.stopHooks.delete(key);
+            await this.runHook(owner, 'onStop', basePath);
+        }
+    }
+
+    getLaunchEntries(config: TerminalLauncherConfig): { config: TerminalConfig, group?: TerminalGroupConfig }[] {
+        // Groups take precedence over top-level terminals
+        if (config.groups && config.groups.length > 0) {
+            return config.groups.flatMap(group =>
+                (group.terminals || []).map(terminal => ({ config: terminal, group }))
+            );
         }
+        return (config.terminals || []).map(terminal => ({ config: terminal }));
     }
 
-    private async createTerminal(config: TerminalConfig, projectBasePath?: string, duplicateAction?: string): Promise<vscode.Terminal | undefined> {
+    private async waitForDependencies(
+        config: TerminalConfig,
+        graph: DependencyGraph,
+        readiness: Map<string, Promise<void>>,
+        projectBasePath?: string
+    ): Promise<string | undefined> {
+        for (const dependency of graph.getExternalDependencies(config)) {
+            if (this.getTerminalState({ name: dependency }, projectBasePath).status !== 'running') {
+                return `it depends on "${dependency}", which is not running`;
+            }
+        }
+
+        const pending = graph.getDependencies(config).filter(name => readiness.has(name));
+        if (pending.length === 0) {
+            return undefined;
+        }
+
+        return vscode.window.withProgress({
+            location: vscode.ProgressLocation.Window,
+            title: `Waiting for ${pending.join(', ')} before starting ${config.name}`
+        }, async () => {
+            for (const dependency of pending) {
+                try {
+                    await readiness.get(dependency);
+                } catch (error) {
+                    return `"${dependency}" ${error instanceof Error ? error.message : error}`;
+                }
+            }
+            return undefined;
+        });
+    }
+
+    // Resolves to whether to go ahead with the terminal; asks what to do when one of its ports is taken
+    private async checkPorts(config: TerminalConfig, projectBasePath: string | undefined, duplicateAction: string): Promise<boolean> {
+        if (!config.ports || config.ports.length === 0) {
+            return true;
+        }
+        // A running instance that is about to be replaced or kept holds its own ports
+        if (['replace', 'skip'].includes(duplicateAction) && this.findExistingTerminal(this.getTerminalName(config, projectBasePath))) {
+            return true;
+        }
+
+        const taken: { port: number, holder?: PortHolder }[] = [];
+        for (const port of config.ports) {
+            if (await this.portChecker.isInUse(port)) {
+                taken.push({ port, holder: await this.portChecker.findHolder(port) });
+            }
+        }
+        if (taken.length === 0) {
+            return true;
+        }
+
+        const describeHolder = (holder?: PortHolder) => holder
+            ? `${holder.name ? `${holder.name}, ` : ''}PID ${holder.pid}`
+            : 'unknown process';
+        const portList = taken.map(({ port, holder }) => `${port} (${describeHolder(holder)})`).join(', ');
+        const holders = taken.map(({ holder }) => holder);
+
+        const actions = [
+            {
+                label: '⏭️ Skip Terminal',
+                description: `Don't start ${config.name}`,
+                value: 'skip'
+            },
+            // Only offered when every holder is known
+            ...(holders.every(holder => holder) ? [{
+                label: '🛑 Kill Process',
+                description: `Stop ${[...new Set(holders.map(describeHolder))].join('; ')}, then start ${config.name}`,
+                value: 'kill'
+            }] : []),
+            {
+                label: '🚀 Launch Anyway',
+                description: 'Start it even though it will probably fail',
+                value: 'launch'
+            }
+        ];
+        const action = await vscode.window.showQuickPick(actions, {
+            placeHolder: `${taken.length > 1 ? 'Ports' : 'Port'} ${portList} of "${config.name}" ${taken.length > 1 ? 'are' : 'is'} already in use. What should we do?`,
+            ignoreFocusOut: true
+        });
+
+        if (action?.value === 'kill') {
+            for (const { port, holder } of taken) {
+                if (!await this.portChecker.kill(holder!, port)) {
+                    vscode.window.showErrorMessage(`Could not free port ${port} for "${config.name}" (${describeHolder(holder)}), so it was not started.`);
+                    return false;
+                }
+            }
+            return true;
+        }
+        return action?.value === 'launch';
+    }
+
+    // Readiness promises may reject before anyone awaits them; keep that from surfacing as an unhandled rejection
+    private handled(promise: Promise<void>): Promise<void> {
+        promise.catch(() => undefined);
+        return promise;
+    }
+
+    private async createTerminal(
+        config: TerminalConfig,
+        projectBasePath?: string,
+        duplicateAction?: string,
+        origin: TerminalOrigin & Pick<TerminalState, 'restartCount' | 'lastExitCode'> = {}
+    ): Promise<vscode.Terminal | undefined> {
         try {
             const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
             const basePath = projectBasePath || workspaceFolder?.uri.fsPath;
@@ -67,19 +599,18 @@ export class TerminalManager {
                 : basePath;
 
             // Add project name prefix if we have a project base path
-            let terminalName = projectBasePath 
-                ? `[${path.basename(projectBasePath)}] ${config.name}`
-                : config.name;
+            let terminalName = this.getTerminalName(config, projectBasePath);
 
             // Handle existing terminals based on user choice
             const existingTerminal = this.findExistingTerminal(terminalName);
             if (existingTerminal) {
                 if (duplicateAction === 'replace') {
-                    existingTerminal.dispose();
+                    await this.closeTerminal(existingTerminal);
                 } else if (duplicateAction === 'skip') {
                     return undefined; // Skip creating this terminal
                 } else if (duplicateAction === 'rename') {
-                    terminalName = this.generateUniqueTerminalName(terminalName);
+                    config = this.renameCopy(config, projectBasePath);
+                    terminalName = this.getTerminalName(config, projectBasePath);
                 }
             }
 
@@ -101,12 +632,39 @@ export class TerminalManager {
                 terminalOptions.iconPath = new vscode.ThemeIcon(config.icon);
             }
 
+            // Split into the group's existing pane, whether it was created in this launch or an earlier one
+            const parentTerminal = origin.groupName ? this.findGroupTerminal(origin.groupName, projectBasePath) : undefined;
+            if (parentTerminal) {
+                terminalOptions.location = { parentTerminal };
+            }
+
             const terminal = vscode.window.createTerminal(terminalOptions);
+            if (this.outputLogger.isEnabled(config)) {
+                this.outputLogger.attach(terminal, terminalName);
+            }
+            if (config.matchers && config.matchers.length > 0) {
+                this.outputMatcher.attach(terminal, config.name, config.matchers, cwd || basePath || '');
+            }
+            if (config.healthCheck) {
+                this.healthMonitor.watch(terminal, config.name, config.healthCheck, cwd || basePath || '', config.env);
+            }
+            this.tracked.set(this.getTerminalKey(config, projectBasePath), {
+                ...origin,
+                terminal,
+                config,
+                projectBasePath,
+                status: 'running',
+                startedAt: Date.now()
+            });
+            this.changeEmitter.fire();
 
-            // Small delay to ensure terminal is ready
-            setTimeout(() => {
-                this.executeTerminalCommands(terminal, config, cwd || basePath || '');
-            }, 500);
+            // Runs once the shell is ready; with shell integration each command waits for the previous one
+            this.commandRunner.run(terminal, config, cwd || basePath || '').then(result => {
+                // The shell outlives its commands; only closing it counts as an exit
+                if (result.outcome === 'finished' || result.outcome === 'stopped') {
+                    this.handleCommandsEnded(terminal, result.exitCode);
+                }
+            });
 
             return terminal;
         } catch (error) {
@@ -115,28 +673,6 @@ export class TerminalManager {
         }
     }
 
-    private executeTerminalCommands(terminal: vscode.Terminal, config: TerminalConfig, basePath: string) {
-        // Execute commands in order of priority: script > commands > command
-        if (config.script) {
-            // Execute external script
-            const scriptPath = path.isAbsolute(config.script) 
-                ? config.script 
-                : path.join(basePath, config.script);
-            terminal.sendText(scriptPath);
-        } else if (config.commands && config.commands.length > 0) {
-            // Execute multiple commands with optional delay between them
-            const delay = config.commandDelay || 100;
-            config.commands.forEach((cmd, index) => {
-                setTimeout(() => {
-                    terminal.sendText(cmd);
-                }, index * delay);
-            });
-        } else if (config.command) {
-            // Execute single command
-            terminal.sendText(config.command);
-        }
-    }
-
     private getTerminalColor(color: string): vscode.ThemeColor {
         const colorMap: Record<string, string> = {
             'red': 'terminal.ansiRed',
@@ -153,12 +689,322 @@ export class TerminalManager {
         return new vscode.ThemeColor(colorMap[color] || 'terminal.foreground');
     }
 
+    getTerminalState(config: TerminalConfig, projectBasePath?: string): TerminalState {
+        const entry = this.tracked.get(this.getTerminalKey(config, projectBasePath));
+        return entry
+            ? {
+                status: entry.status,
+                exitCode: entry.exitCode,
+                restartCount: entry.restartCount,
+                lastExitCode: entry.lastExitCode,
+                alert: this.outputMatcher.getAlert(entry.terminal),
+                health: this.healthMonitor.getHealth(entry.terminal)
+            }
+            : { status: 'stopped' };
+    }
+
+    focusTerminal(config: TerminalConfig, projectBasePath?: string): boolean {
+        const terminal = this.getRunningTerminal(config, projectBasePath);
+        terminal?.show();
+        return terminal !== undefined;
+    }
+
+    async stopTerminal(config: TerminalConfig, projectBasePath?: string) {
+        await this.stopTracked(config, projectBasePath);
+        await this.runStopHooks(projectBasePath);
+    }
+
+    // Stops every terminal of one project; terminals launched without a project have an undefined path
+    async stopProject(projectBasePath?: string) {
+        await Promise.all(this.getRunningTerminals(projectBasePath).map(terminal => this.stopTracked(terminal.config, projectBasePath)));
+        await this.runStopHooks(projectBasePath);
+    }
+
+    async stopAll() {
+        const terminals = this.getAllRunningTerminals();
+        await Promise.all(terminals.map(terminal => this.stopTracked(terminal.config, terminal.projectBasePath)));
+        for (const projectBasePath of new Set(terminals.map(terminal => terminal.projectBasePath))) {
+            await this.runStopHooks(projectBasePath);
+        }
+    }
+
+    private async stopTracked(config: TerminalConfig, projectBasePath?: string) {
+        const key = this.getTerminalKey(config, projectBasePath);
+        const entry = this.tracked.get(key);
+        if (entry?.status === 'restarting') {
+            this.cancelRestart(key);
+            entry.status = 'stopped';
+            this.changeEmitter.fire();
+            return;
+        }
+
+        if (entry) {
+            await this.stopEntry(entry);
+        }
+    }
+
+    // Stops the whole group first so ports are free, then starts its terminals again in their original order
+    async restartGroup(groupName: string, projectBasePath?: string) {
+        const members = [...this.tracked.values()]
+            .filter(entry => entry.groupName === groupName && entry.projectBasePath === projectBasePath && entry.status !== 'stopped');
+        await Promise.all(members.map(entry => this.stopTracked(entry.config, projectBasePath)));
+
+        for (const [index, entry] of members.entries()) {
+            const terminal = await this.createTerminal(entry.config, projectBasePath, 'replace', this.getOrigin(entry));
+            terminal?.show(index === 0);
+        }
+    }
+
+    async restartTerminal(config: TerminalConfig, projectBasePath?: string) {
+        // 'replace' disposes the running instance (matched by name) before creating the new one.
+        // Reuse the previously resolved definition so inputs are not asked for again.
+        const key = this.getTerminalKey(config, projectBasePath);
+        const previous = this.tracked.get(key);
+        this.cancelRestart(key);
+        const terminal = await this.createTerminal(previous?.config || config, projectBasePath, 'replace', this.getOrigin(previous));
+        terminal?.show();
+    }
+
+    // Where the terminal's output is logged, whether or not it has been logged yet
+    getLogPath(config: TerminalConfig, projectBasePath?: string): string | undefined {
+        return this.outputLogger.getLogPath(this.getTerminalName(config, projectBasePath));
+    }
+
+    getRunningTerminals(projectBasePath?: string): RunningTerminal[] {
+        return this.getAllRunningTerminals().filter(terminal => terminal.projectBasePath === projectBasePath);
+    }
+
+    getAllRunningTerminals(): RunningTerminal[] {
+        return [...this.tracked.values()]
+            .filter(entry => entry.status !== 'stopped')
+            .map(entry => ({ ...this.getOrigin(entry), config: entry.config, projectBasePath: entry.projectBasePath }));
+    }
+
+    // Swaps a running terminal for a new definition in place (same group, same name)
+    async replaceTerminal(config: TerminalConfig, projectBasePath: string | undefined, origin: TerminalOrigin) {
+        const key = this.getTerminalKey(config, projectBasePath);
+        this.cancelRestart(key);
+        await this.createTerminal(config, projectBasePath, 'replace', origin);
+    }
+
     disposeTerminals() {
-        this.terminals.forEach(terminal => terminal.dispose());
-        this.terminals = [];
+        this.restartTimers.forEach(timer => clearTimeout(timer));
+        this.restartTimers.clear();
+        this.tracked.forEach(entry => {
+            if (this.isOpen(entry)) {
+                entry.terminal.dispose();
+            }
+        });
+        this.tracked.clear();
     }
 
-    private async checkForDuplicateTerminals(config: TerminalLauncherConfig, projectBasePath?: string): Promise<string> {
+    dispose() {
+        this.hookRunner.dispose();
+        this.outputMatcher.dispose();
+        this.healthMonitor.dispose();
+        this.closeListener.dispose();
+        this.executionListeners.forEach(listener => listener.dispose());
+        this.changeEmitter.dispose();
+        this.launchEmitter.dispose();
+    }
+
+    private async offerUnhealthyRestart({ terminal, reason }: UnhealthyEvent) {
+        const entry = [...this.tracked.values()].find(candidate => candidate.terminal === terminal);
+        if (!entry || entry.status !== 'running') {
+            return;
+        }
+
+        const answer = await vscode.window.showWarningMessage(`"${entry.config.name}" is unhealthy: ${reason}.`, 'Restart');
+        // It may have been stopped or restarted while the message was open
+        if (answer === 'Restart' && entry.terminal === terminal && entry.status === 'running') {
+            await this.restartTerminal(entry.config, entry.projectBasePath);
+        }
+    }
+
+    private handleCommandsEnded(terminal: vscode.Terminal, exitCode: number | undefined) {
+        for (const entry of this.tracked.values()) {
+            if (entry.terminal === terminal && entry.status === 'running') {
+                entry.status = 'idle';
+                entry.exitCode = exitCode;
+                this.changeEmitter.fire();
+            }
+        }
+    }
+
+    // Something was run by hand in a shell whose own commands had ended
+    private handleCommandStarted(terminal: vscode.Terminal) {
+        for (const entry of this.tracked.values()) {
+            if (entry.terminal === terminal && entry.status === 'idle') {
+                entry.status = 'running';
+                entry.exitCode = undefined;
+                this.changeEmitter.fire();
+            }
+        }
+    }
+
+    private handleExit(entry: TrackedTerminal, exitCode: number | undefined) {
+        const policy = entry.config.restart || 'never';
+        const failed = exitCode !== undefined && exitCode !== 0;
+        if (policy === 'never' || (policy === 'on-failure' && !failed) || exitCode === INTERRUPTED_EXIT_CODE) {
+            return;
+        }
+
+        const key = this.getTerminalKey(entry.config, entry.projectBasePath);
+        const attempts = Date.now() - entry.startedAt > STABLE_UPTIME ? 0 : entry.restartCount || 0;
+        const maxRestarts = entry.config.maxRestarts ?? DEFAULT_MAX_RESTARTS;
+        if (attempts >= maxRestarts) {
+            vscode.window.showWarningMessage(
+                `${entry.terminal.name} exited${exitCode !== undefined ? ` with code ${exitCode}` : ''} and was not restarted again after ${attempts} restart${attempts === 1 ? '' : 's'}.`
+            );
+            return;
+        }
+
+        // Exponential backoff: restartDelay, 2x, 4x, ... capped
+        const delay = Math.min((entry.config.restartDelay ?? DEFAULT_RESTART_DELAY) * 2 ** attempts, MAX_RESTART_DELAY);
+        entry.status = 'restarting';
+        entry.lastExitCode = exitCode;
+        this.changeEmitter.fire();
+        vscode.window.setStatusBarMessage(
+            `$(sync~spin) Restarting ${entry.terminal.name} in ${delay / 1000}s (attempt ${attempts + 1} of ${maxRestarts})`,
+            delay
+        );
+
+        this.cancelRestart(key);
+        this.restartTimers.set(key, setTimeout(async () => {
+            this.restartTimers.delete(key);
+            if (this.tracked.get(key) !== entry || entry.status !== 'restarting') {
+                return;
+            }
+
+            // Same resolved options and command chain as before; 'replace' closes the old shell if it is still open
+            await this.createTerminal(entry.config, entry.projectBasePath, 'replace', {
+                ...this.getOrigin(entry),
+                restartCount: attempts + 1,
+                lastExitCode: exitCode
+            });
+        }, delay));
+    }
+
+    private getOrigin(entry: TrackedTerminal | undefined): TerminalOrigin {
+        return {
+            sourceConfig: entry?.sourceConfig,
+            groupName: entry?.groupName,
+            profileName: entry?.profileName,
+            inputValues: entry?.inputValues
+        };
+    }
+
+    private cancelRestart(key: string) {
+        const timer = this.restartTimers.get(key);
+        if (timer) {
+            clearTimeout(timer);
+            this.restartTimers.delete(key);
+        }
+    }
+
+    private stopEntry(entry: TrackedTerminal): Promise<void> {
+        if (!this.isOpen(entry) && entry.status !== 'stopping') {
+            return Promise.resolve();
+        }
+        entry.shutdown = entry.shutdown || this.shutDown(entry);
+        return entry.shutdown;
+    }
+
+    // Sends Ctrl+C (or the stopSignal/stopCommand), waits up to the grace period for it to take effect, then closes the terminal
+    private async shutDown(entry: TrackedTerminal) {
+        const { terminal, config } = entry;
+        const idle = terminal.shellIntegration !== undefined && !this.busyTerminals.has(terminal);
+        // An idle shell has nothing to interrupt; a stop command still runs so it can clean up
+        if (idle && !config.stopCommand) {
+            this.disposeTerminal(terminal);
+            return;
+        }
+
+        entry.status = 'stopping';
+        this.changeEmitter.fire();
+        if (config.stopCommand) {
+            terminal.sendText(config.stopCommand);
+        } else {
+            terminal.sendText(STOP_SIGNAL_KEYS[config.stopSignal || 'SIGINT'], false);
+        }
+
+        await this.waitForShutdown(terminal, config.stopGracePeriod ?? DEFAULT_STOP_GRACE_PERIOD);
+        this.disposeTerminal(terminal);
+    }
+
+    // Resolves when the running command ends, the terminal closes or the grace period is over.
+    // Without shell integration the end of a command is not reported, so only closing cuts the wait short.
+    private waitForShutdown(terminal: vscode.Terminal, gracePeriod: number): Promise<void> {
+        return new Promise(resolve => {
+            const listeners: vscode.Disposable[] = [];
+            const done = () => {
+                clearTimeout(timer);
+                listeners.forEach(listener => listener.dispose());
+                resolve();
+            };
+            const timer = setTimeout(done, gracePeriod);
+            listeners.push(
+                vscode.window.onDidEndTerminalShellExecution(event => event.terminal === terminal && done()),
+                vscode.window.onDidCloseTerminal(closed => closed === terminal && done())
+            );
+        });
+    }
+
+    // Terminals we launched get the chance to shut down cleanly; anything else is closed right away
+    private async closeTerminal(terminal: vscode.Terminal) {
+        const entry = [...this.tracked.values()].find(candidate => candidate.terminal === terminal);
+        if (entry) {
+            await this.stopEntry(entry);
+        }
+        this.disposeTerminal(terminal);
+    }
+
+    // Marks the terminal stopped right away so it is never picked as a split parent while it closes
+    private disposeTerminal(terminal: vscode.Terminal) {
+        for (const entry of this.tracked.values()) {
+            if (entry.terminal === terminal) {
+                entry.status = 'stopped';
+                entry.exitCode = undefined;
+            }
+        }
+        terminal.dispose();
+        this.changeEmitter.fire();
+    }
+
+    private findGroupTerminal(groupName: string, projectBasePath?: string): vscode.Terminal | undefined {
+        for (const entry of this.tracked.values()) {
+            if (this.isOpen(entry) && entry.groupName === groupName && entry.projectBasePath === projectBasePath) {
+                return entry.terminal;
+            }
+        }
+        return undefined;
+    }
+
+    private getGroupName(group: TerminalGroupConfig): string {
+        // Unnamed groups are keyed by their first terminal so they still split together
+        return group.name || `#${group.terminals?.[0]?.name}`;
+    }
+
+    private getRunningTerminal(config: TerminalConfig, projectBasePath?: string): vscode.Terminal | undefined {
+        const entry = this.tracked.get(this.getTerminalKey(config, projectBasePath));
+        return entry && this.isOpen(entry) ? entry.terminal : undefined;
+    }
+
+    private isOpen(entry: TrackedTerminal): boolean {
+        return entry.status === 'running' || entry.status === 'idle';
+    }
+
+    private getTerminalName(config: TerminalConfig, projectBasePath?: string): string {
+        return projectBasePath
+            ? `[${path.basename(projectBasePath)}] ${config.name}`
+            : config.name;
+    }
+
+    private getTerminalKey(config: TerminalConfig, projectBasePath?: string): string {
+        return `${projectBasePath || ''}::${config.name}`;
+    }
+
+    private async checkForDuplicateTerminals(config: TerminalLauncherConfig, projectBasePath?: string, presetAction?: string): Promise<string> {
         const terminalNames: string[] = [];
 
         // Collect all terminal names that would be created
@@ -185,6 +1031,10 @@ export class TerminalManager {
         // Check if any of these terminals already exist
         const duplicates = terminalNames.filter(name => this.findExistingTerminal(name) !== undefined);
 
+        if (duplicates.length > 0 && presetAction && ['replace', 'skip', 'rename'].includes(presetAction)) {
+            return presetAction;
+        }
+
         if (duplicates.length > 0) {
             const duplicateList = duplicates.map(name => `• ${name}`).join('\n');
             
@@ -228,15 +1078,16 @@ export class TerminalManager {
         return vscode.window.terminals.find(terminal => terminal.name === name);
     }
 
-    private generateUniqueTerminalName(baseName: string): string {
+    // The copy is tracked under its own name, e.g. "API (2)", so the original stays tracked as well
+    private renameCopy(config: TerminalConfig, projectBasePath?: string): TerminalConfig {
         let counter = 2;
-        let uniqueName = `${baseName} (${counter})`;
-        
-        while (this.findExistingTerminal(uniqueName)) {
+        let copy = { ...config, name: `${config.name} (${counter})` };
+
+        while (this.findExistingTerminal(this.getTerminalName(copy, projectBasePath)) || this.getRunningTerminal(copy, projectBasePath)) {
             counter++;
-            uniqueName = `${baseName} (${counter})`;
+            copy = { ...config, name: `${config.name} (${counter})` };
         }
-        
-        return uniqueName;
+
+        return copy;
     }
 }
\ No newline at end of file
@@ -0,0 +1,185 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigParser, ConfigLocation } from './configParser';
+import { TerminalManager, TerminalState } from './terminalManager';
+import { TerminalConfig, TerminalGroupConfig, TerminalLauncherConfig } from './types';
+
+export type LauncherTreeNode = ProjectNode | GroupNode | TerminalNode;
+
+export interface ProjectNode {
+    kind: 'project';
+    location: ConfigLocation;
+    projectPath: string;
+    // The whole config, so launches from the sidebar get its inputs, hooks and env files too
+    config: TerminalLauncherConfig;
+}
+
+export interface GroupNode {
+    kind: 'group';
+    project: ProjectNode;
+    group: TerminalGroupConfig;
+}
+
+export interface TerminalNode {
+    kind: 'terminal';
+    project: ProjectNode;
+    terminal: TerminalConfig;
+}
+
+export class TerminalTreeProvider implements vscode.TreeDataProvider<LauncherTreeNode>, vscode.Disposable {
+    private changeEmitter = new vscode.EventEmitter<void>();
+    private managerListener: vscode.Disposable;
+
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(private configParser: ConfigParser, private terminalManager: TerminalManager) {
+        this.managerListener = terminalManager.onDidChangeTerminals(() => this.refresh());
+    }
+
+    refresh() {
+        this.changeEmitter.fire();
+    }
+
+    async getChildren(node?: LauncherTreeNode): Promise<LauncherTreeNode[]> {
+        if (!node) {
+            const configs = await this.configParser.findAllConfigFiles();
+            const projects: ProjectNode[] = [];
+
+            for (const location of configs) {
+                const config = await this.configParser.parseConfig(location.path);
+                projects.push({
+                    kind: 'project',
+                    location,
+                    projectPath: path.dirname(location.path),
+                    config: config || {}
+                });
+            }
+
+            return projects;
+        }
+
+        switch (node.kind) {
+            case 'project':
+                // Mirror what a launch does: groups take precedence over top-level terminals
+                if (node.config.groups?.length) {
+                    return node.config.groups.map(group => ({ kind: 'group', project: node, group }));
+                }
+                return (node.config.terminals || []).map(terminal => ({ kind: 'terminal', project: node, terminal }));
+            case 'group':
+                return (node.group.terminals || []).map(terminal => ({ kind: 'terminal', project: node.project, terminal }));
+            default:
+                return [];
+        }
+    }
+
+    getTreeItem(node: LauncherTreeNode): vscode.TreeItem {
+        if (node.kind === 'terminal') {
+            const state = this.terminalManager.getTerminalState(node.terminal, node.project.projectPath);
+            const item = new vscode.TreeItem(node.terminal.name, vscode.TreeItemCollapsibleState.None);
+            item.description = this.describeState(state);
+            item.tooltip = [
+                node.terminal.name,
+                node.terminal.cwd,
+                node.terminal.command,
+                node.terminal.ports?.length ? `Ports: ${node.terminal.ports.join(', ')}` : undefined,
+                state.alert ? `Output: ${state.alert.message}` : undefined,
+                state.health ? `Health: ${state.health.status}${state.health.reason ? ` (${state.health.reason})` : ''}` : undefined
+            ].filter(Boolean).join('\n');
+            item.iconPath = this.getStatusIcon(state);
+            item.contextValue = `terminal.${state.status}`;
+            return item;
+        }
+
+        const terminals = this.getTerminals(node);
+        const statuses = terminals.map(terminal => this.terminalManager.getTerminalState(terminal, this.getProjectPath(node)).status);
+        const running = statuses.filter(status => status === 'running').length;
+        // Idle shells can still be focused, restarted and stopped
+        const open = running + statuses.filter(status => status === 'idle').length;
+
+        const label = node.kind === 'project'
+            ? node.location.projectName
+            : node.group.name || 'Group';
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.Expanded);
+        item.description = `${running}/${terminals.length} running`;
+        item.iconPath = new vscode.ThemeIcon(
+            node.kind === 'project' ? 'folder' : 'layers',
+            open > 0 ? new vscode.ThemeColor('terminal.ansiGreen') : undefined
+        );
+        item.tooltip = node.kind === 'project' ? node.location.path : label;
+        item.contextValue = `${node.kind}.${open > 0 ? 'running' : 'stopped'}`;
+        return item;
+    }
+
+    getTerminals(node: LauncherTreeNode): TerminalConfig[] {
+        switch (node.kind) {
+            case 'project':
+                return node.config.groups?.length
+                    ? node.config.groups.flatMap(group => group.terminals || [])
+                    : node.config.terminals || [];
+            case 'group':
+                return node.group.terminals || [];
+            case 'terminal':
+                return [node.terminal];
+        }
+    }
+
+    getProjectPath(node: LauncherTreeNode): string {
+        return node.kind === 'project' ? node.projectPath : node.project.projectPath;
+    }
+
+    dispose() {
+        this.managerListener.dispose();
+        this.changeEmitter.dispose();
+    }
+
+    private describeState(state: TerminalState): string {
+        let description: string = state.status;
+        if ((state.status === 'exited' || state.status === 'idle') && state.exitCode !== undefined) {
+            description = `${state.status} (${state.exitCode})`;
+        }
+        if (state.restartCount) {
+            description += ` · restarted ${state.restartCount}×`;
+        }
+        if (state.lastExitCode !== undefined && state.status !== 'exited') {
+            description += ` · last exit ${state.lastExitCode}`;
+        }
+        if (state.health && state.status === 'running') {
+            description += state.health.status === 'unknown' ? ' · health unknown' : ` · ${state.health.status}`;
+        }
+        if (state.alert) {
+            description += ` · ${state.alert.severity === 'info' ? 'note' : state.alert.severity}`;
+        }
+        return description;
+    }
+
+    private getStatusIcon(state: TerminalState): vscode.ThemeIcon {
+        if (state.status === 'running' && state.health?.status === 'unhealthy') {
+            return new vscode.ThemeIcon('pulse', new vscode.ThemeColor('terminal.ansiRed'));
+        }
+        // Problems reported by output matchers outrank the plain running status
+        if (state.status === 'running' && state.alert) {
+            switch (state.alert.severity) {
+                case 'error':
+                    return new vscode.ThemeIcon('error', new vscode.ThemeColor('terminal.ansiRed'));
+                case 'warning':
+                    return new vscode.ThemeIcon('warning', new vscode.ThemeColor('terminal.ansiYellow'));
+                default:
+                    return new vscode.ThemeIcon('info', new vscode.ThemeColor('terminal.ansiBlue'));
+            }
+        }
+        switch (state.status) {
+            case 'running':
+                return new vscode.ThemeIcon('circle-filled', new vscode.ThemeColor('terminal.ansiGreen'));
+            case 'idle':
+                return new vscode.ThemeIcon('circle-filled', new vscode.ThemeColor(state.exitCode ? 'terminal.ansiRed' : 'terminal.ansiYellow'));
+            case 'exited':
+                return new vscode.ThemeIcon('error', new vscode.ThemeColor(state.exitCode ? 'terminal.ansiRed' : 'terminal.ansiYellow'));
+            case 'restarting':
+                return new vscode.ThemeIcon('sync~spin', new vscode.ThemeColor('terminal.ansiYellow'));
+            case 'stopping':
+                return new vscode.ThemeIcon('loading~spin');
+            default:
+                return new vscode.ThemeIcon('circle-outline');
+        }
+    }
+}
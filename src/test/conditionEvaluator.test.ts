@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ConditionEvaluator } from '../conditionEvaluator';
+import * as vscode from './vscodeStub';
+
+describe('ConditionEvaluator', () => {
+    let directory: string;
+    const savedEnv = { ...process.env };
+
+    const setHead = (head: string) => {
+        fs.mkdirSync(path.join(directory, '.git'), { recursive: true });
+        fs.writeFileSync(path.join(directory, '.git', 'HEAD'), head);
+    };
+
+    beforeEach(() => {
+        vscode.reset();
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'terminal-launcher-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+        process.env = { ...savedEnv };
+    });
+
+    it('checks the platform', () => {
+        const current = process.platform === 'win32' ? 'windows' : process.platform === 'darwin' ? 'macos' : 'linux';
+        const other = current === 'windows' ? 'linux' : 'windows';
+        const evaluator = new ConditionEvaluator(directory);
+        assert.strictEqual(evaluator.check({ platform: [other, current] }), undefined);
+        assert.strictEqual(evaluator.check({ platform: other }), `it only runs on ${other}`);
+    });
+
+    it('checks files relative to the project folder', () => {
+        fs.writeFileSync(path.join(directory, 'package.json'), '{}');
+        const evaluator = new ConditionEvaluator(directory);
+        assert.strictEqual(evaluator.check({ exists: 'package.json', notExists: 'Cargo.toml' }), undefined);
+        assert.strictEqual(evaluator.check({ exists: ['package.json', 'docker-compose.yml'] }), 'docker-compose.yml does not exist');
+        assert.strictEqual(evaluator.check({ notExists: 'package.json' }), 'package.json exists');
+    });
+
+    it('treats empty variables as unset and matches values with wildcards', () => {
+        process.env.TL_MODE = 'staging-eu';
+        process.env.TL_EMPTY = '';
+        delete process.env.TL_MISSING;
+        const evaluator = new ConditionEvaluator(directory);
+        assert.strictEqual(evaluator.check({ envSet: 'TL_MODE', envUnset: ['TL_EMPTY', 'TL_MISSING'], env: { TL_MODE: 'staging-*' } }), undefined);
+        assert.strictEqual(evaluator.check({ envSet: 'TL_EMPTY' }), 'TL_EMPTY is not set');
+        assert.strictEqual(evaluator.check({ envUnset: 'TL_MODE' }), 'TL_MODE is set');
+        assert.strictEqual(evaluator.check({ env: { TL_MODE: 'prod*' } }), 'TL_MODE is "staging-eu", not "prod*"');
+        assert.strictEqual(evaluator.check({ env: { TL_MISSING: '*' } }), 'TL_MISSING is not set');
+    });
+
+    it('reads the branch from the nearest repository', () => {
+        setHead('ref: refs/heads/feature/login\n');
+        const nested = path.join(directory, 'packages', 'web');
+        fs.mkdirSync(nested, { recursive: true });
+        const evaluator = new ConditionEvaluator(nested);
+        assert.strictEqual(evaluator.check({ branch: ['main', 'feature/*'] }), undefined);
+        assert.strictEqual(evaluator.check({ branch: 'main' }), 'the git branch is "feature/login", not "main"');
+    });
+
+    it('follows a worktree .git file and reports a detached HEAD', () => {
+        const gitDir = path.join(directory, 'real-git');
+        fs.mkdirSync(gitDir);
+        fs.writeFileSync(path.join(gitDir, 'HEAD'), 'ref: refs/heads/release\n');
+        const worktree = path.join(directory, 'worktree');
+        fs.mkdirSync(worktree);
+        fs.writeFileSync(path.join(worktree, '.git'), 'gitdir: ../real-git\n');
+        assert.strictEqual(new ConditionEvaluator(worktree).check({ branch: 'release' }), undefined);
+
+        setHead('3f2a9c1d0e8b7a6f5e4d3c2b1a0f9e8d7c6b5a49\n');
+        assert.strictEqual(new ConditionEvaluator(directory).check({ branch: 'main' }), 'the project is not on a git branch');
+    });
+
+    it('compares settings as text', () => {
+        vscode.settings['editor.formatOnSave'] = true;
+        const evaluator = new ConditionEvaluator(directory);
+        assert.strictEqual(evaluator.check({ settings: { 'editor.formatOnSave': 'true' } }), undefined);
+        assert.strictEqual(evaluator.check({ settings: { 'editor.tabSize': 4 } }), 'the setting editor.tabSize is undefined, not 4');
+    });
+});
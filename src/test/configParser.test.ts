@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ConfigParser } from '../configParser';
+import * as vscode from './vscodeStub';
+
+describe('ConfigParser.loadConfig', () => {
+    let directory: string;
+    let parser: ConfigParser;
+
+    const write = (file: string, config: unknown) => {
+        const filePath = path.join(directory, file);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, typeof config === 'string' ? config : JSON.stringify(config, null, 2));
+        return filePath;
+    };
+
+    // The parser builds null-prototype objects; compare plain copies
+    const load = (configPath: string) => {
+        const { config, errors } = parser.loadConfig(configPath);
+        return { config: JSON.parse(JSON.stringify(config)), errors };
+    };
+
+    beforeEach(() => {
+        vscode.reset();
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'terminal-launcher-'));
+        parser = new ConfigParser();
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('layers the extends base, then each include, then the file itself', () => {
+        write('base.json', {
+            groups: [{ name: 'Backend', terminals: [{ name: 'DB', command: 'docker compose up db' }] }],
+            terminals: [{ name: 'API', command: 'npm start', cwd: './api', env: { PORT: '3000', LOG: 'info' } }],
+            inputs: [{ id: 'env', type: 'pickString', options: ['dev', 'prod'] }]
+        });
+        write('tools.json', {
+            groups: [{ name: 'Backend', terminals: [{ name: 'Queue', command: 'redis-server' }] }],
+            profiles: [{ name: 'api', terminals: ['API'] }]
+        });
+        const configPath = write('.terminal.json', {
+            extends: 'base.json',
+            include: ['./tools.json'],
+            terminals: [
+                { name: 'API', commands: ['npm ci', 'npm start'], env: { PORT: '4000' } },
+                { name: 'Web', command: 'npm run dev' }
+            ],
+            inputs: [{ id: 'env', type: 'promptString' }]
+        });
+
+        const { config, errors } = load(configPath);
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual(config, {
+            groups: [{
+                name: 'Backend',
+                terminals: [{ name: 'DB', command: 'docker compose up db' }, { name: 'Queue', command: 'redis-server' }]
+            }],
+            terminals: [
+                { name: 'API', cwd: './api', commands: ['npm ci', 'npm start'], env: { PORT: '4000', LOG: 'info' } },
+                { name: 'Web', command: 'npm run dev' }
+            ],
+            inputs: [{ id: 'env', type: 'promptString' }],
+            profiles: [{ name: 'api', terminals: ['API'] }]
+        });
+    });
+
+    it('binds ${configDir} to the directory of the file that uses it', () => {
+        write('shared/tools.json', {
+            terminals: [{ name: 'Lint', cwd: '${configDir}', command: '${configDir}/lint.sh', envFile: '${configDir}/.env' }]
+        });
+        const configPath = write('.terminal.json', {
+            include: ['shared/tools.json'],
+            terminals: [{ name: 'Web', cwd: '${configDir}/web' }]
+        });
+
+        const shared = path.join(directory, 'shared');
+        const { config } = load(configPath);
+        assert.deepStrictEqual(config.terminals, [
+            { name: 'Lint', cwd: shared, command: `${shared}/lint.sh`, envFile: `${shared}/.env` },
+            // The launched file's own ${configDir} is resolved at launch time
+            { name: 'Web', cwd: '${configDir}/web' }
+        ]);
+    });
+
+    it('blames missing files, cycles and broken includes on their entry', () => {
+        write('loop.json', { include: ['.terminal.json'], terminals: [] });
+        write('broken.json', '{ "terminals": [');
+        const configPath = write('.terminal.json', {
+            extends: 'missing.json',
+            include: ['./loop.json', './broken.json'],
+            terminals: [{ name: 'API', command: 'npm start' }]
+        });
+
+        const { config, errors } = load(configPath);
+        assert.deepStrictEqual(errors.map(error => [error.at.join('.'), error.message]).slice(0, 2), [
+            ['extends', 'Config file not found: missing.json'],
+            ['include.0', 'loop.json: Include cycle: .terminal.json → loop.json → .terminal.json']
+        ]);
+        assert.strictEqual(errors.length, 3);
+        assert.deepStrictEqual(errors[2].at, ['include', 1]);
+        assert.match(errors[2].message, /^broken\.json: /);
+        assert.deepStrictEqual(config.terminals, [{ name: 'API', command: 'npm start' }]);
+    });
+});
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ConfigParser } from '../configParser';
+import { ConfigValidator } from '../configValidator';
+import * as vscode from './vscodeStub';
+
+describe('ConfigValidator', () => {
+    let directory: string;
+    let validator: ConfigValidator;
+
+    const validate = (config: unknown) => {
+        const configPath = path.join(directory, '.terminal.json');
+        const content = JSON.stringify(config, null, 2);
+        fs.writeFileSync(configPath, content);
+        return validator.validateContent(configPath, content)
+            .map(issue => `${issue.severity}: ${issue.message}`);
+    };
+
+    beforeEach(() => {
+        vscode.reset();
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'terminal-launcher-'));
+        validator = new ConfigValidator(new ConfigParser());
+    });
+
+    afterEach(() => {
+        validator.dispose();
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('accepts a well-formed config', () => {
+        fs.writeFileSync(path.join(directory, '.env'), 'PORT=3000\n');
+        assert.deepStrictEqual(validate({
+            envFile: ['.env', { path: '.env.local', optional: true }],
+            groups: [{
+                name: 'Backend',
+                terminals: [
+                    { name: 'DB', command: 'docker compose up db', ports: [5432] },
+                    { name: 'API', command: 'npm start', dependsOn: ['DB'], restart: 'on-failure', matchers: [{ pattern: 'error: (.*)', message: 1 }] }
+                ]
+            }],
+            profiles: [{ name: 'api', groups: ['Backend'] }]
+        }), []);
+    });
+
+    it('reports values of the wrong type instead of trusting them', () => {
+        assert.deepStrictEqual(validate({
+            include: 'shared.json',
+            terminals: [
+                { name: 'API', ports: [0, '3000'], maxRestarts: 1.5, restart: 7, color: ['red'] },
+                'Web'
+            ]
+        }), [
+            'error: "include" must be an array of strings',
+            'error: "ports" must be an array of port numbers between 1 and 65535',
+            'error: "restart" must be one of: never, on-failure, always',
+            'error: "maxRestarts" must be a non-negative integer',
+            'error: Invalid color "red". Expected one of: red, orange, yellow, green, blue, purple, pink, black, white',
+            'error: Terminal must be an object'
+        ]);
+    });
+
+    it('checks matcher capture groups against the pattern', () => {
+        assert.deepStrictEqual(validate({
+            terminals: [{ name: 'Build', matchers: [{ pattern: '(\\w+): (.*)', file: 1, message: 3, line: -1 }] }]
+        }), [
+            'error: "line" must be the number of a capture group in "pattern"',
+            'error: "pattern" has no capture group 3'
+        ]);
+    });
+
+    it('warns about unknown properties and profile references', () => {
+        assert.deepStrictEqual(validate({
+            terminals: [{ name: 'API', command: 'npm start', comand: 'typo' }],
+            profiles: [{ name: 'dev', terminals: ['Web'] }]
+        }), [
+            'warning: Unknown property "comand"',
+            'warning: Profile refers to unknown terminal "Web"'
+        ]);
+    });
+});
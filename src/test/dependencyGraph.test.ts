@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { DependencyGraph } from '../dependencyGraph';
+import { TerminalConfig } from '../types';
+
+const names = (terminals: TerminalConfig[]) => terminals.map(terminal => terminal.name);
+
+describe('DependencyGraph', () => {
+    it('starts dependencies first and otherwise keeps the configured order', () => {
+        const graph = new DependencyGraph([
+            { name: 'Web', dependsOn: ['API'] },
+            { name: 'Docs' },
+            { name: 'API', dependsOn: ['DB'] },
+            { name: 'DB' }
+        ]);
+        assert.deepStrictEqual(names(graph.sort()), ['Docs', 'DB', 'API', 'Web']);
+    });
+
+    it('leaves dependencies on terminals outside the graph to the caller', () => {
+        const web: TerminalConfig = { name: 'Web', dependsOn: ['API', 'Worker'] };
+        const graph = new DependencyGraph([web, { name: 'Worker' }]);
+        assert.deepStrictEqual(names(graph.sort()), ['Worker', 'Web']);
+        assert.deepStrictEqual(graph.getExternalDependencies(web), ['API']);
+    });
+
+    it('names the terminals of a cycle in order', () => {
+        const graph = new DependencyGraph([
+            { name: 'Docs' },
+            { name: 'A', dependsOn: ['B'] },
+            { name: 'B', dependsOn: ['C'] },
+            { name: 'C', dependsOn: ['A'] }
+        ]);
+        assert.deepStrictEqual(graph.findCycle(), ['A', 'B', 'C', 'A']);
+        assert.throws(() => graph.sort(), /Dependency cycle detected: A → B → C → A/);
+    });
+
+    it('reports a terminal that depends on itself as a cycle', () => {
+        assert.deepStrictEqual(new DependencyGraph([{ name: 'A', dependsOn: ['A'] }]).findCycle(), ['A', 'A']);
+    });
+
+    it('tells which terminals others wait for', () => {
+        const db: TerminalConfig = { name: 'DB' };
+        const api: TerminalConfig = { name: 'API', dependsOn: ['DB'] };
+        const graph = new DependencyGraph([db, api]);
+        assert.strictEqual(graph.hasDependents(db), true);
+        assert.strictEqual(graph.hasDependents(api), false);
+    });
+});
@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { EnvFileError, EnvFileLoader } from '../envFileLoader';
+
+describe('EnvFileLoader', () => {
+    let directory: string;
+    let loader: EnvFileLoader;
+
+    const parse = (content: string) => loader.parse(content, '.env');
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'terminal-launcher-'));
+        loader = new EnvFileLoader(directory);
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('reads plain, exported and commented lines', () => {
+        assert.deepStrictEqual(parse([
+            '# database',
+            'DB_HOST=localhost',
+            'export DB_PORT = 5432',
+            'TAG=v1#2',
+            'NAME=api # the service name',
+            'EMPTY=',
+            ''
+        ].join('\n')), { DB_HOST: 'localhost', DB_PORT: '5432', TAG: 'v1#2', NAME: 'api', EMPTY: '' });
+    });
+
+    it('keeps single-quoted values as written and unescapes double-quoted ones', () => {
+        assert.deepStrictEqual(parse([
+            'LITERAL=\'$HOME\\n\'',
+            'ESCAPED="line one\\nline \\"two\\""',
+            'WINDOWS=C:\\tools\\bin',
+            'MULTILINE="first',
+            'second"'
+        ].join('\r\n')), {
+            LITERAL: '$HOME\\n',
+            ESCAPED: 'line one\nline "two"',
+            WINDOWS: 'C:\\tools\\bin',
+            MULTILINE: 'first\nsecond'
+        });
+    });
+
+    it('expands variables set earlier, with defaults for unset ones', () => {
+        assert.deepStrictEqual(parse([
+            'HOST=localhost',
+            'URL=http://$HOST:${PORT:-3000}/',
+            'QUOTED="${HOST}/api"',
+            'PRICE=\\$5'
+        ].join('\n')), { HOST: 'localhost', URL: 'http://localhost:3000/', QUOTED: 'localhost/api', PRICE: '$5' });
+    });
+
+    it('reports the line of a malformed entry', () => {
+        assert.throws(() => parse('A=1\nnot a variable\n'), (error: Error) =>
+            error instanceof EnvFileError && error.message === '.env:2: expected KEY=value');
+        assert.throws(() => parse('A="unterminated\n'), /\.env:1: the value of A has no closing "/);
+    });
+
+    it('lets later files win and refer to earlier ones, skipping missing optional files', () => {
+        fs.writeFileSync(path.join(directory, '.env'), 'PORT=3000\nHOST=localhost\n');
+        fs.writeFileSync(path.join(directory, '.env.local'), 'PORT=4000\nURL=http://$HOST:$PORT\n');
+        assert.deepStrictEqual(loader.load(['.env', '.env.local', { path: '.env.missing', optional: true }]), {
+            PORT: '4000',
+            HOST: 'localhost',
+            URL: 'http://localhost:4000'
+        });
+    });
+
+    it('fails on a missing required file', () => {
+        assert.throws(() => loader.load(['.env.missing']), /Cannot read env file \.env\.missing/);
+    });
+});
@@ -0,0 +1,165 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { ConfigWriter } from '../configWriter';
+import { IniConfigParser } from '../iniConfigParser';
+import { TerminalLauncherConfig } from '../types';
+
+describe('IniConfigParser', () => {
+    const parser = new IniConfigParser();
+    const writer = new ConfigWriter();
+
+    it('reads groups, terminals and typed values', () => {
+        const { config, errors } = parser.parse([
+            'version = 1',
+            '; shared by every terminal',
+            '[group:Backend]',
+            'preLaunch.task = build',
+            'when.platform = linux, macos',
+            '',
+            '[API]',
+            'cwd = ./api',
+            'commands = npm ci; npm start',
+            'ports = 3000, 3001',
+            'stopOnFailure = false',
+            'env.NODE_ENV = development',
+            'readyWhen.port = 3000'
+        ].join('\n'));
+
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual(config, {
+            version: '1',
+            groups: [{
+                name: 'Backend',
+                preLaunch: { task: 'build' },
+                when: { platform: ['linux', 'macos'] },
+                terminals: [{
+                    name: 'API',
+                    cwd: './api',
+                    commands: ['npm ci', 'npm start'],
+                    ports: [3000, 3001],
+                    stopOnFailure: false,
+                    env: { NODE_ENV: 'development' },
+                    readyWhen: { port: 3000 }
+                }]
+            }]
+        });
+    });
+
+    it('unquotes whole values only, with escapes in double quotes', () => {
+        const { config, errors } = parser.parse([
+            '[Quoted]',
+            'command = "my app" --flag',
+            'script = \'C:\\scripts\\run.ps1\'',
+            'shellPath = "  padded\\t\\"end\\"  "',
+            'shellArgs = "a, b", \'c\', d',
+            'commands = echo "one; two"; echo don\'t'
+        ].join('\n'));
+
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual(config.terminals?.[0], {
+            name: 'Quoted',
+            command: '"my app" --flag',
+            script: 'C:\\scripts\\run.ps1',
+            shellPath: '  padded\t"end"  ',
+            shellArgs: ['a, b', 'c', 'd'],
+            commands: ['echo "one', 'two"', 'echo don\'t']
+        });
+    });
+
+    it('joins lines ending in a backslash', () => {
+        const { config, errors } = parser.parse([
+            '[Build]',
+            'commands = npm ci; \\',
+            '    npm run build; \\',
+            '    npm test',
+            '# a comment ending in \\',
+            'icon = tools'
+        ].join('\r\n'));
+
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual(config.terminals?.[0], { name: 'Build', commands: ['npm ci', 'npm run build', 'npm test'], icon: 'tools' });
+    });
+
+    it('reports malformed lines where they are', () => {
+        const content = '[API]\nports = 3000, http\nno separator\n[Broken\nkey = ignored\n';
+        const { errors } = parser.parse(content);
+
+        assert.deepStrictEqual(errors.map(error => [error.message, content.slice(error.range.offset, error.range.offset + error.range.length)]), [
+            ['Expected a list of numbers, got "http"', '3000, http'],
+            ['Expected "key = value" or a [section] header', 'no separator'],
+            ['Section header is missing its closing "]"', '[Broken']
+        ]);
+    });
+
+    it('writes values that need quoting so they read back the same', () => {
+        const config: TerminalLauncherConfig = {
+            terminals: [{
+                name: 'Tricky',
+                command: '"quoted" start',
+                cwd: ' padded ',
+                script: 'ends\\',
+                shellArgs: ['a, b', '\'single\''],
+                commands: ['echo one; echo two', 'line\nbreak'],
+                env: { GREETING: 'tab\there' }
+            }]
+        };
+
+        const { config: readBack, errors } = parser.parse(writer.serialize(config, 'ini'));
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual(readBack, config);
+    });
+
+    it('reads numbered matchers in the order they first appear', () => {
+        const { config, errors } = parser.parse([
+            '[Web]',
+            'matchers.2.pattern = ERROR (.*)',
+            'matchers.1.pattern = "(\\S+):(\\d+): (.*)"',
+            'matchers.1.file = 1',
+            'matchers.1.line = 2',
+            'matchers.1.message = 3',
+            'matchers.2.severity = error'
+        ].join('\n'));
+
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual(config.terminals?.[0].matchers, [
+            { pattern: 'ERROR (.*)', severity: 'error' },
+            { pattern: '(\\S+):(\\d+): (.*)', file: 1, line: 2, message: 3 }
+        ]);
+    });
+
+    it('loads optional env files after the required ones', () => {
+        const { config, errors } = parser.parse([
+            'envFile.optional = .env.local',
+            'envFile = .env',
+            '[group:Backend]',
+            'envFile.optional = backend/.env.local',
+            '[API]'
+        ].join('\n'));
+
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual(config.envFile, ['.env', { path: '.env.local', optional: true }]);
+        assert.deepStrictEqual(config.groups?.[0].envFile, [{ path: 'backend/.env.local', optional: true }]);
+    });
+
+    it('writes matchers and optional env files so they read back the same', () => {
+        const config: TerminalLauncherConfig = {
+            envFile: ['.env', { path: '.env.local', optional: true }],
+            terminals: [{
+                name: 'Web',
+                command: 'npm run dev',
+                matchers: [{ pattern: 'error TS\\d+: (.*)', severity: 'error', message: 1, clearPattern: 'Found 0 errors' }]
+            }]
+        };
+
+        const { config: readBack, errors } = parser.parse(writer.serialize(config, 'ini'));
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual(readBack, config);
+    });
+
+    it('refuses to write a required env file after an optional one', () => {
+        assert.throws(
+            () => writer.serialize({ envFile: [{ path: '.env.local', optional: true }, '.env'], terminals: [] }, 'ini'),
+            /cannot keep in order/
+        );
+    });
+});
@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ConfigParser } from '../configParser';
+import { LiveReloader } from '../liveReloader';
+import { ProfileManager } from '../profileManager';
+import { RunningTerminal, TerminalManager } from '../terminalManager';
+import { TrustManager } from '../trustManager';
+import { TerminalConfig, TerminalGroupConfig, TerminalLauncherConfig } from '../types';
+import * as vscode from './vscodeStub';
+
+const CONFIG = JSON.stringify({
+    terminals: [
+        { name: 'API', command: 'npm start' },
+        { name: 'Web', command: 'npm run dev' }
+    ]
+}, null, 2);
+
+describe('LiveReloader', () => {
+    let directory: string;
+    let configPath: string;
+    let calls: string[];
+    let reloader: LiveReloader;
+
+    // Reloads right away instead of after the debounce
+    const reload = () => (reloader as unknown as { reload(configPath: string): Promise<void> }).reload(configPath);
+
+    beforeEach(() => {
+        vscode.reset();
+        vscode.settings['terminalLauncher.liveReload'] = true;
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'terminal-launcher-'));
+        configPath = path.join(directory, '.terminal.json');
+        fs.writeFileSync(configPath, CONFIG);
+        calls = [];
+
+        const running: RunningTerminal[] = [
+            { config: { name: 'API', command: 'npm start' }, projectBasePath: directory },
+            { config: { name: 'Web', command: 'npm run dev' }, projectBasePath: directory }
+        ];
+        const terminalManager = {
+            getRunningTerminals: () => running,
+            getLaunchEntries: (config: TerminalLauncherConfig) => config.groups
+                ? config.groups.flatMap(group => group.terminals.map(terminal => ({ config: terminal, group })))
+                : (config.terminals || []).map(terminal => ({ config: terminal })),
+            resolveTerminal: async (_config: TerminalLauncherConfig, entry: { config: TerminalConfig, group?: TerminalGroupConfig }) => entry.config,
+            replaceTerminal: async (config: TerminalConfig) => {
+                calls.push(`replace ${config.name}`);
+            },
+            launchTerminals: async () => {
+                calls.push('launch');
+            },
+            stopTerminal: async (config: TerminalConfig) => {
+                calls.push(`stop ${config.name}`);
+            }
+        };
+        const trustManager = { ensureApproved: async () => true };
+
+        reloader = new LiveReloader(
+            new ConfigParser(),
+            terminalManager as unknown as TerminalManager,
+            new ProfileManager(),
+            trustManager as unknown as TrustManager
+        );
+        reloader.remember(configPath);
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('restarts a terminal whose definition changed', async () => {
+        fs.writeFileSync(configPath, CONFIG.replace('npm start', 'npm run serve'));
+        await reload();
+        assert.deepStrictEqual(calls, ['replace API']);
+    });
+
+    it('ignores a config saved halfway through an edit', async () => {
+        // Saved right after typing the comma that starts the next terminal
+        fs.writeFileSync(configPath, '{\n  "terminals": [\n    { "name": "API", "command": "npm start" },\n');
+        await reload();
+        assert.deepStrictEqual(calls, []);
+        assert.deepStrictEqual(vscode.messages, []);
+    });
+});
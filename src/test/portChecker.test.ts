@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import * as net from 'net';
+import { afterEach, describe, it } from 'node:test';
+import { PortChecker } from '../portChecker';
+
+describe('PortChecker', () => {
+    const checker = new PortChecker();
+    let server: net.Server | undefined;
+
+    // Listens on a free port the system picks and resolves to that port
+    const listen = (host: string) => new Promise<number>((resolve, reject) => {
+        server = net.createServer();
+        server.once('error', reject);
+        server.listen(0, host, () => resolve((server!.address() as net.AddressInfo).port));
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+        server = undefined;
+    });
+
+    it('reports a port held by a server on the loopback address', async () => {
+        const port = await listen('127.0.0.1');
+        assert.strictEqual(await checker.isInUse(port), true);
+    });
+
+    it('reports a port as free once its server closed', async () => {
+        const port = await listen('127.0.0.1');
+        await new Promise(resolve => server!.close(resolve));
+        server = undefined;
+        assert.strictEqual(await checker.isInUse(port), false);
+    });
+});
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { ProcessFileParser } from '../processFileParser';
+
+describe('ProcessFileParser', () => {
+    const parser = new ProcessFileParser();
+
+    it('reads each Procfile line as a terminal', () => {
+        const content = '# local processes\r\nweb: npm run dev  \r\nworker:bundle exec sidekiq\r\n\r\nbroken line\r\n';
+        const { config, errors, locate } = parser.parse('/project/Procfile', content);
+
+        assert.deepStrictEqual(config.terminals, [
+            { name: 'web', command: 'npm run dev' },
+            { name: 'worker', command: 'bundle exec sidekiq' }
+        ]);
+        assert.deepStrictEqual(errors.map(error => [error.message, content.substr(error.range.offset, error.range.length)]), [
+            ['Expected "name: command"', 'broken line']
+        ]);
+
+        const command = locate(['terminals', 1, 'command']);
+        assert.strictEqual(command && content.substr(command.offset, command.length), 'bundle exec sidekiq');
+        const key = locate(['terminals', 1, 'command'], 'key');
+        assert.strictEqual(key && content.substr(key.offset, key.length), 'worker');
+    });
+
+    it('runs each compose service on its own, keeping its dependencies and published port', () => {
+        const { config, errors } = parser.parse('/project/compose.yaml', [
+            'services:',
+            '  db:',
+            '    image: postgres',
+            '    ports: ["127.0.0.1:5432:5432"]',
+            '  api:',
+            '    build: .',
+            '    depends_on:',
+            '      db:',
+            '        condition: service_healthy',
+            '      external:',
+            '        condition: service_started',
+            '    ports:',
+            '      - target: 3000',
+            '        published: 8080',
+            '  web:',
+            '    depends_on: [api]',
+            '    ports: ["9229", "3001:3000/tcp"]'
+        ].join('\n'));
+
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual(config.terminals, [
+            { name: 'db', command: 'docker compose up --no-deps db', readyWhen: { port: 5432 } },
+            { name: 'api', command: 'docker compose up --no-deps api', dependsOn: ['db'], readyWhen: { port: 8080 } },
+            { name: 'web', command: 'docker compose up --no-deps web', dependsOn: ['api'], readyWhen: { port: 3001 } }
+        ]);
+    });
+
+    it('reports a compose file without services', () => {
+        const { config, errors } = parser.parse('/project/docker-compose.yml', 'version: "3"\n');
+        assert.deepStrictEqual(config.terminals, []);
+        assert.deepStrictEqual(errors.map(error => error.message), ['No "services" found in the compose file']);
+    });
+});
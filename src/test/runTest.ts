@@ -0,0 +1,15 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Module = require('module');
+
+// The unit tests run in plain Node: "vscode" resolves to a stand-in instead of the editor's API
+const loader = Module as unknown as { _resolveFilename(this: unknown, request: string, ...rest: unknown[]): string };
+const resolveFilename = loader._resolveFilename;
+loader._resolveFilename = function (request, ...rest) {
+    return resolveFilename.call(this, request === 'vscode' ? path.join(__dirname, 'vscodeStub') : request, ...rest);
+};
+
+// node:test runs everything the test files register and sets a failing exit code if any test fails
+for (const file of fs.readdirSync(__dirname).filter(file => file.endsWith('.test.js')).sort()) {
+    require(path.join(__dirname, file));
+}
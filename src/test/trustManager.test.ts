@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as vscode from 'vscode';
+import { TrustManager } from '../trustManager';
+import * as stub from './vscodeStub';
+
+describe('TrustManager', () => {
+    let directory: string;
+    let stored: Record<string, unknown>;
+    let dialogs: string[];
+    let trustManager: TrustManager;
+    const showWarningMessage = stub.window.showWarningMessage;
+
+    const approve = () => trustManager.ensureApproved(path.join(directory, '.terminal.json'), {
+        envFile: '.env',
+        terminals: [{ name: 'API', command: 'npm start' }]
+    });
+
+    beforeEach(() => {
+        stub.reset();
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'terminal-launcher-'));
+        fs.writeFileSync(path.join(directory, '.env'), 'API_TOKEN=s3cr3t-token\n');
+        stored = {};
+        dialogs = [];
+        // Approves every prompt and remembers what it showed
+        stub.window.showWarningMessage = async (...items: unknown[]) => {
+            dialogs.push(JSON.stringify(items));
+            return 'Approve';
+        };
+        const state = {
+            get: (key: string, defaultValue?: unknown) => stored[key] ?? defaultValue,
+            update: async (key: string, value: unknown) => {
+                stored[key] = value;
+            }
+        };
+        trustManager = new TrustManager(state as unknown as vscode.Memento);
+    });
+
+    afterEach(() => {
+        stub.window.showWarningMessage = showWarningMessage;
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('lists env file variables without their values', async () => {
+        assert.strictEqual(await approve(), true);
+        assert.match(dialogs.join('\n'), /API_TOKEN/);
+        assert.doesNotMatch(dialogs.join('\n'), /s3cr3t-token/);
+        assert.doesNotMatch(JSON.stringify(stored), /s3cr3t-token/);
+    });
+
+    it('asks again when an env file value changes', async () => {
+        await approve();
+        assert.strictEqual(dialogs.length, 1);
+
+        await approve();
+        assert.strictEqual(dialogs.length, 1);
+
+        fs.writeFileSync(path.join(directory, '.env'), 'API_TOKEN=rotated\n');
+        await approve();
+        assert.strictEqual(dialogs.length, 2);
+    });
+});
@@ -0,0 +1,90 @@
+// Stands in for the parts of the VS Code API that unit-tested modules touch, so they run in plain Node
+
+// Setting values by full name, e.g. "terminalLauncher.liveReload"
+export const settings: Record<string, unknown> = {};
+// Every notification shown, in order
+export const messages: string[] = [];
+
+export function reset() {
+    Object.keys(settings).forEach(key => delete settings[key]);
+    messages.length = 0;
+}
+
+export class Disposable {
+    constructor(private callOnDispose: () => void = () => undefined) {}
+
+    dispose() {
+        this.callOnDispose();
+    }
+}
+
+export class EventEmitter<T> {
+    private listeners = new Set<(data: T) => void>();
+
+    readonly event = (listener: (data: T) => void) => {
+        this.listeners.add(listener);
+        return new Disposable(() => this.listeners.delete(listener));
+    };
+
+    fire(data: T) {
+        this.listeners.forEach(listener => listener(data));
+    }
+
+    dispose() {
+        this.listeners.clear();
+    }
+}
+
+export const ConfigurationTarget = { Global: 1, Workspace: 2, WorkspaceFolder: 3 };
+
+export const Uri = {
+    file: (fsPath: string) => ({ fsPath, toString: () => fsPath })
+};
+
+export class Position {
+    constructor(readonly line: number, readonly character: number) {}
+}
+
+export class Range {
+    constructor(readonly start: Position, readonly end: Position) {}
+}
+
+export enum DiagnosticSeverity { Error, Warning, Information, Hint }
+
+export class Diagnostic {
+    source?: string;
+
+    constructor(readonly range: Range, readonly message: string, readonly severity: DiagnosticSeverity) {}
+}
+
+export const languages = {
+    createDiagnosticCollection: () => ({ set: () => undefined, delete: () => undefined, dispose: () => undefined })
+};
+
+export const workspace = {
+    workspaceFolders: undefined,
+    isTrusted: true,
+    getConfiguration: (section?: string) => ({
+        get: <T>(key: string, defaultValue?: T): T | undefined => {
+            const name = section ? `${section}.${key}` : key;
+            return name in settings ? settings[name] as T : defaultValue;
+        },
+        update: async (key: string, value: unknown) => {
+            settings[section ? `${section}.${key}` : key] = value;
+        }
+    }),
+    getWorkspaceFolder: () => undefined,
+    registerTextDocumentContentProvider: () => new Disposable()
+};
+
+const show = async (message: string): Promise<string | undefined> => {
+    messages.push(message);
+    return undefined;
+};
+
+export const window = {
+    showInformationMessage: show,
+    showWarningMessage: show,
+    showErrorMessage: show,
+    setStatusBarMessage: () => new Disposable()
+};
@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { YamlConfigParser } from '../yamlConfigParser';
+
+describe('YamlConfigParser', () => {
+    const parser = new YamlConfigParser();
+
+    it('merges shared anchors and drops x- keys', () => {
+        const { config, errors } = parser.parse([
+            'x-env: &env',
+            '  NODE_ENV: development',
+            '  LOG: debug',
+            'terminals:',
+            '  - name: API',
+            '    command: npm start',
+            '    env:',
+            '      <<: *env',
+            '      LOG: info'
+        ].join('\n'));
+
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual(config, {
+            terminals: [{ name: 'API', command: 'npm start', env: { NODE_ENV: 'development', LOG: 'info' } }]
+        });
+    });
+
+    it('splits a commands block into one command per line', () => {
+        const { config } = parser.parse([
+            'groups:',
+            '  - name: Backend',
+            '    terminals:',
+            '      - name: DB',
+            '        commands: |',
+            '          docker compose up -d db',
+            '',
+            '          npm run migrate',
+            'profiles:',
+            '  - name: ci',
+            '    overrides:',
+            '      DB:',
+            '        commands: >-',
+            '          npm test'
+        ].join('\n'));
+
+        assert.deepStrictEqual(config.groups?.[0].terminals[0].commands, ['docker compose up -d db', 'npm run migrate']);
+        assert.deepStrictEqual(config.profiles?.[0].overrides?.DB.commands, ['npm test']);
+    });
+
+    it('locates keys and values, following aliases to their anchor', () => {
+        const content = [
+            'x-web: &web',
+            '  name: Web',
+            '  command: npm run dev',
+            'terminals:',
+            '  - *web'
+        ].join('\n');
+        const { locate } = parser.parse(content);
+
+        const value = locate(['terminals', 0, 'command']);
+        assert.strictEqual(value && content.substr(value.offset, value.length), 'npm run dev');
+        const key = locate(['terminals', 0, 'name'], 'key');
+        assert.strictEqual(key && content.substr(key.offset, key.length), 'name');
+        assert.strictEqual(locate(['terminals', 1]), undefined);
+    });
+
+    it('reports syntax errors and documents that are not a mapping', () => {
+        const broken = parser.parse('terminals:\n  - name: "API\n');
+        assert.strictEqual(broken.errors.length > 0, true);
+        assert.match(broken.errors[0].message, /^YAML syntax error: /);
+
+        const list = parser.parse('- name: API\n');
+        assert.deepStrictEqual(list.config, {});
+        assert.deepStrictEqual(list.errors.map(error => error.message), ['Configuration must be a YAML mapping']);
+
+        assert.deepStrictEqual(parser.parse('# nothing yet\n').errors, []);
+    });
+
+    it('stops runaway alias expansion', () => {
+        const lines = ['a0: &a0 [x, x, x, x, x, x, x, x, x, x]'];
+        for (let i = 1; i < 6; i++) {
+            lines.push(`a${i}: &a${i} [${Array(10).fill(`*a${i - 1}`).join(', ')}]`);
+        }
+        const { config, errors } = parser.parse(lines.join('\n'));
+        assert.deepStrictEqual(config, {});
+        assert.match(errors[0].message, /^YAML error: /);
+    });
+});
@@ -0,0 +1,205 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EnvFileLoader } from './envFileLoader';
+import { EnvFile, HOOK_NAMES, TerminalConfig, TerminalGroupConfig, TerminalLauncherConfig } from './types';
+import { VariableResolver } from './variableResolver';
+
+const APPROVALS_KEY = 'terminalLauncher.approvals';
+const REVIEW_SCHEME = 'terminal-launcher-approval';
+// How many changed lines fit in the approval dialog before the rest is left to the diff view
+const MAX_DETAIL_LINES = 15;
+
+interface Approval {
+    hash: string;
+    // What was approved, one line per command, script, shell or env entry, kept to diff against later
+    commands: string[];
+}
+
+// Nothing from a config is sent to a terminal until its commands have been approved in this workspace
+export class TrustManager implements vscode.Disposable {
+    private reviewContents = new Map<string, string>();
+    private reviewProvider: vscode.Disposable;
+
+    constructor(private state: vscode.Memento) {
+        this.reviewProvider = vscode.workspace.registerTextDocumentContentProvider(REVIEW_SCHEME, {
+            provideTextDocumentContent: uri => this.reviewContents.get(uri.toString()) || ''
+        });
+    }
+
+    // Resolves to true when the config may run; asks when it is new or its commands changed since they were approved
+    async ensureApproved(configPath: string, config: TerminalLauncherConfig): Promise<boolean> {
+        if (!vscode.workspace.isTrusted) {
+            const answer = await vscode.window.showWarningMessage(
+                'Terminal Launcher does not run commands in an untrusted workspace.',
+                'Manage Workspace Trust'
+            );
+            if (answer === 'Manage Workspace Trust') {
+                await vscode.commands.executeCommand('workbench.trust.manage');
+            }
+            return false;
+        }
+
+        const commands = await this.describeCommands(config, path.dirname(configPath));
+        const hash = crypto.createHash('sha256').update(commands.join('\n')).digest('hex');
+        const approvals = this.getApprovals();
+        const approved = approvals[configPath];
+        // A config that runs nothing has nothing to approve
+        if (approved?.hash === hash || commands.length === 0) {
+            return true;
+        }
+
+        const fileName = path.basename(configPath);
+        const added = commands.filter(line => !approved?.commands.includes(line));
+        const removed = approved ? approved.commands.filter(line => !commands.includes(line)) : [];
+        const changes = [...removed.map(line => `- ${line}`), ...added.map(line => `+ ${line}`)];
+        const detail = changes.length > MAX_DETAIL_LINES
+            ? [...changes.slice(0, MAX_DETAIL_LINES), `… and ${changes.length - MAX_DETAIL_LINES} more`].join('\n')
+            : changes.join('\n');
+
+        const answer = await vscode.window.showWarningMessage(
+            approved
+                ? `The commands in ${fileName} changed since you approved them. Run the new commands?`
+                : `${fileName} in ${path.basename(path.dirname(configPath))} wants to run commands. Only approve configurations you trust.`,
+            { modal: true, detail },
+            'Approve',
+            'Show Diff'
+        );
+
+        let approvedNow = answer === 'Approve';
+        if (answer === 'Show Diff') {
+            await this.showDiff(configPath, approved?.commands || [], commands);
+            // Not modal, so the diff can be scrolled before answering
+            approvedNow = await vscode.window.showWarningMessage(`Approve the commands in ${fileName}?`, 'Approve') === 'Approve';
+        }
+
+        if (approvedNow) {
+            await this.state.update(APPROVALS_KEY, { ...approvals, [configPath]: { hash, commands } });
+        }
+        return approvedNow;
+    }
+
+    dispose() {
+        this.reviewProvider.dispose();
+    }
+
+    // Everything that ends up running in a shell: hooks, commands, scripts, shells and environment variables,
+    // including the ones set by env files
+    private async describeCommands(config: TerminalLauncherConfig, basePath: string): Promise<string[]> {
+        const terminals = [
+            ...(config.terminals || []),
+            ...(config.groups || []).flatMap(group => group.terminals || [])
+        ];
+        // Env file paths cannot use inputs, so they resolve here just like they will at launch
+        const resolver = new VariableResolver({ projectDir: basePath, configDir: basePath });
+
+        const lines = [
+            ...await this.describeEnvFiles('config', config.envFile, resolver, basePath),
+            ...this.describeHooks('', config)
+        ];
+        for (const group of config.groups || []) {
+            const label = `group ${group.name || group.terminals?.[0]?.name}`;
+            lines.push(...await this.describeEnvFiles(label, group.envFile, resolver, basePath), ...this.describeHooks(`${label} `, group));
+        }
+        for (const terminal of terminals) {
+            lines.push(...this.describeTerminal(terminal.name, terminal), ...await this.describeEnvFiles(terminal.name, terminal.envFile, resolver, basePath));
+        }
+        for (const profile of config.profiles || []) {
+            lines.push(...this.describeEnv(`profile ${profile.name}`, profile.env));
+            for (const [name, override] of Object.entries(profile.overrides || {})) {
+                lines.push(...this.describeTerminal(`profile ${profile.name}, ${name}`, override));
+            }
+        }
+        return lines;
+    }
+
+    private describeTerminal(label: string, terminal: Partial<TerminalConfig>): string[] {
+        const lines: string[] = [];
+        if (terminal.script) {
+            lines.push(`${label}: script ${terminal.script}`);
+        }
+        for (const command of terminal.commands || (terminal.command ? [terminal.command] : [])) {
+            lines.push(`${label}: ${command}`);
+        }
+        if (terminal.stopCommand) {
+            lines.push(`${label}: stop with ${terminal.stopCommand}`);
+        }
+        if (terminal.healthCheck?.command) {
+            lines.push(`${label}: health check ${terminal.healthCheck.command}`);
+        }
+        if (terminal.shellPath) {
+            lines.push(`${label}: shell ${[terminal.shellPath, ...(terminal.shellArgs || [])].join(' ')}`);
+        }
+        return [...lines, ...this.describeEnv(label, terminal.env)];
+    }
+
+    private describeHooks(prefix: string, owner: TerminalLauncherConfig | TerminalGroupConfig): string[] {
+        return HOOK_NAMES.flatMap(name => {
+            const hook = owner[name];
+            const label = `${prefix}${name}`;
+            if (typeof hook === 'string') {
+                return [`${label}: ${hook}`];
+            }
+            if (!hook) {
+                return [];
+            }
+            return [
+                hook.task !== undefined ? `${label}: task ${hook.task}` : `${label}: ${hook.command}`,
+                ...this.describeEnv(label, hook.env)
+            ];
+        });
+    }
+
+    private describeEnv(label: string, env: Record<string, string> | undefined): string[] {
+        return Object.entries(env || {}).map(([name, value]) => `${label}: env ${name}=${value}`);
+    }
+
+    // The paths and what the files set, so editing an env file needs approval like editing "env" does.
+    // Values are only listed as a hash: env files hold secrets that should not end up in the workspace state or on screen.
+    private async describeEnvFiles(
+        label: string,
+        envFile: EnvFile | EnvFile[] | undefined,
+        resolver: VariableResolver,
+        basePath: string
+    ): Promise<string[]> {
+        const lines: string[] = [];
+        for (const file of Array.isArray(envFile) ? envFile : envFile ? [envFile] : []) {
+            const { path: filePath, optional } = typeof file === 'string' ? { path: file, optional: false } : file;
+            const fileLabel = `${label}: env file ${filePath}`;
+            lines.push(`${fileLabel}${optional ? ' (optional)' : ''}`);
+            try {
+                const content = fs.readFileSync(path.resolve(basePath, await resolver.resolve(filePath)), 'utf8');
+                const env = new EnvFileLoader(basePath).parse(content, filePath);
+                lines.push(...Object.entries(env).map(([name, value]) => `${fileLabel}: ${name} (value ${this.hashValue(value)})`));
+            } catch (error) {
+                // A missing file sets nothing, and a malformed one stops the launch
+            }
+        }
+        return lines;
+    }
+
+    private hashValue(value: string): string {
+        return crypto.createHash('sha256').update(value).digest('hex').slice(0, 12);
+    }
+
+    private async showDiff(configPath: string, approved: string[], current: string[]) {
+        const fileName = path.basename(configPath);
+        const query = encodeURIComponent(configPath);
+        const before = vscode.Uri.parse(`${REVIEW_SCHEME}:/approved/${fileName}?${query}`);
+        const after = vscode.Uri.parse(`${REVIEW_SCHEME}:/current/${fileName}?${query}`);
+        this.reviewContents.set(before.toString(), approved.join('\n') + '\n');
+        this.reviewContents.set(after.toString(), current.join('\n') + '\n');
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            before,
+            after,
+            `${fileName}: ${approved.length > 0 ? 'Approved' : 'Nothing Approved'} ↔ Current Commands`
+        );
+    }
+
+    private getApprovals(): Record<string, Approval> {
+        return this.state.get<Record<string, Approval>>(APPROVALS_KEY, {});
+    }
+}
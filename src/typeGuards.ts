@@ -0,0 +1,14 @@
+// Parsed config files are untrusted until validated, so their content is handled as unknown and narrowed with these
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+// The items of an array, or none for anything else
+export function listOf(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [];
+}
@@ -1,3 +1,77 @@
+export const TERMINAL_COLORS = ['red', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink', 'black', 'white'] as const;
+
+export type TerminalColor = typeof TERMINAL_COLORS[number];
+
+// Signals a terminal can deliver to its foreground process: Ctrl+C and Ctrl+\
+export const STOP_SIGNALS = ['SIGINT', 'SIGQUIT'] as const;
+
+export type StopSignal = typeof STOP_SIGNALS[number];
+
+export interface ReadinessConfig {
+  port?: number;
+  host?: string;
+  url?: string;
+  outputPattern?: string;
+  file?: string;
+  timeout?: number;
+  interval?: number;
+}
+
+export const MATCHER_SEVERITIES = ['error', 'warning', 'info'] as const;
+
+export type MatcherSeverity = typeof MATCHER_SEVERITIES[number];
+
+// Watches a terminal's output line by line. file, line, column and message are capture group
+// numbers, like in VS Code problem matchers.
+export interface OutputMatcherConfig {
+  pattern: string;
+  severity?: MatcherSeverity;
+  file?: number;
+  line?: number;
+  column?: number;
+  message?: number;
+  // Output that means the problem is fixed, e.g. "Compiled successfully"
+  clearPattern?: string;
+}
+
+export const PLATFORMS = ['windows', 'macos', 'linux'] as const;
+
+export type Platform = typeof PLATFORMS[number];
+
+// Decides whether a terminal or group is launched; all given conditions must hold.
+// Patterns may use * as a wildcard.
+export interface WhenConfig {
+  platform?: Platform | Platform[];
+  exists?: string | string[];
+  notExists?: string | string[];
+  env?: Record<string, string>;
+  envSet?: string | string[];
+  envUnset?: string | string[];
+  branch?: string | string[];
+  settings?: Record<string, string | number | boolean>;
+}
+
+// Probes a running terminal periodically; all given probes must pass
+export interface HealthCheckConfig {
+  url?: string;
+  port?: number;
+  host?: string;
+  command?: string;
+  interval?: number;
+  timeout?: number;
+  // Failed checks in a row before the terminal counts as unhealthy
+  failureThreshold?: number;
+}
+
+// A dotenv file, relative to the project folder. A missing optional file is skipped instead of failing the launch.
+export interface EnvFileConfig {
+  path: string;
+  optional?: boolean;
+}
+
+// A plain string is a required file
+export type EnvFile = string | EnvFileConfig;
+
 export interface TerminalConfig {
   name: string;
   cwd?: string;
@@ -5,20 +79,89 @@ export interface TerminalConfig {
   commands?: string[];
   script?: string;
   commandDelay?: number;
-  color?: 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple' | 'pink' | 'black' | 'white';
+  stopOnFailure?: boolean;
+  color?: TerminalColor;
   icon?: string;
   env?: Record<string, string>;
+  envFile?: EnvFile | EnvFile[];
   shellPath?: string;
   shellArgs?: string[];
+  dependsOn?: string[];
+  readyWhen?: ReadinessConfig;
+  healthCheck?: HealthCheckConfig;
+  ports?: number[];
+  matchers?: OutputMatcherConfig[];
+  tags?: string[];
+  restart?: 'never' | 'on-failure' | 'always';
+  maxRestarts?: number;
+  restartDelay?: number;
+  stopCommand?: string;
+  stopSignal?: StopSignal;
+  stopGracePeriod?: number;
+  log?: boolean;
+  when?: WhenConfig;
 }
 
+export interface InputConfig {
+  id: string;
+  type: 'pickString' | 'promptString';
+  description?: string;
+  options?: string[];
+  default?: string;
+  password?: boolean;
+}
+
+// Runs outside the terminals: a shell command in the background, or a VS Code task by its label
+export interface HookConfig {
+  command?: string;
+  task?: string;
+  cwd?: string;
+  env?: Record<string, string>;
+}
+
+// A plain string is a shell command
+export type Hook = string | HookConfig;
+
+export const HOOK_NAMES = ['preLaunch', 'postLaunch', 'onStop'] as const;
+
+export type HookName = typeof HOOK_NAMES[number];
+
 export interface TerminalGroupConfig {
   name?: string;
   terminals: TerminalConfig[];
+  when?: WhenConfig;
+  envFile?: EnvFile | EnvFile[];
+  preLaunch?: Hook;
+  postLaunch?: Hook;
+  onStop?: Hook;
+}
+
+export interface ProfileOverride {
+  env?: Record<string, string>;
+  command?: string;
+  commands?: string[];
+}
+
+export interface ProfileConfig {
+  name: string;
+  description?: string;
+  terminals?: string[];
+  groups?: string[];
+  tags?: string[];
+  env?: Record<string, string>;
+  overrides?: Record<string, ProfileOverride>;
 }
 
 export interface TerminalLauncherConfig {
   version?: string;
+  extends?: string;
+  include?: string[];
   groups?: TerminalGroupConfig[];
   terminals?: TerminalConfig[];
-}
\ No newline at end of file
+  inputs?: InputConfig[];
+  profiles?: ProfileConfig[];
+  envFile?: EnvFile | EnvFile[];
+  preLaunch?: Hook;
+  postLaunch?: Hook;
+  onStop?: Hook;
+}
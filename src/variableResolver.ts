@@ -0,0 +1,201 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { Hook, HookConfig, InputConfig, TerminalConfig } from './types';
+
+export const VARIABLE_PATTERN = /\$\{([^}]+)\}/g;
+
+const SIMPLE_VARIABLES = ['workspaceFolder', 'projectDir', 'configDir', 'userHome', 'pathSeparator'];
+const PREFIXED_VARIABLES = ['env', 'config', 'input'];
+
+export interface VariableContext {
+    projectDir: string;
+    configDir: string;
+    inputs?: InputConfig[];
+    // Answers from an earlier launch; these inputs are not asked for again
+    inputValues?: Record<string, string>;
+}
+
+export class InputCancelledError extends Error {
+    constructor(inputId: string) {
+        super(`Input "${inputId}" was cancelled`);
+    }
+}
+
+export class VariableResolver {
+    // Each input is asked once per launch, however many fields use it
+    private inputValues = new Map<string, string>();
+
+    constructor(private context: VariableContext) {
+        for (const [id, value] of Object.entries(context.inputValues || {})) {
+            this.inputValues.set(id, value);
+        }
+    }
+
+    static isKnownVariable(variable: string): boolean {
+        const separator = variable.indexOf(':');
+        if (separator === -1) {
+            return SIMPLE_VARIABLES.includes(variable);
+        }
+        return PREFIXED_VARIABLES.includes(variable.slice(0, separator)) && separator < variable.length - 1;
+    }
+
+    getInputValues(): Record<string, string> {
+        return Object.fromEntries(this.inputValues);
+    }
+
+    async resolveTerminal(config: TerminalConfig): Promise<TerminalConfig> {
+        const resolved: TerminalConfig = { ...config };
+
+        if (config.cwd) {
+            resolved.cwd = await this.resolve(config.cwd);
+        }
+        if (config.command) {
+            resolved.command = await this.resolve(config.command);
+        }
+        if (config.commands) {
+            resolved.commands = await this.resolveAll(config.commands);
+        }
+        if (config.script) {
+            resolved.script = await this.resolve(config.script);
+        }
+        if (config.shellPath) {
+            resolved.shellPath = await this.resolve(config.shellPath);
+        }
+        if (config.shellArgs) {
+            resolved.shellArgs = await this.resolveAll(config.shellArgs);
+        }
+        if (config.stopCommand) {
+            resolved.stopCommand = await this.resolve(config.stopCommand);
+        }
+        if (config.healthCheck?.command) {
+            resolved.healthCheck = { ...config.healthCheck, command: await this.resolve(config.healthCheck.command) };
+        }
+        if (config.env) {
+            resolved.env = {};
+            for (const [name, value] of Object.entries(config.env)) {
+                resolved.env[name] = await this.resolve(value);
+            }
+        }
+
+        return resolved;
+    }
+
+    // Hooks come back in object form; a task label is left as written since it names something in tasks.json
+    async resolveHook(hook: Hook): Promise<HookConfig> {
+        const config: HookConfig = typeof hook === 'string' ? { command: hook } : { ...hook };
+
+        if (config.command) {
+            config.command = await this.resolve(config.command);
+        }
+        if (config.cwd) {
+            config.cwd = await this.resolve(config.cwd);
+        }
+        if (config.env) {
+            const env: Record<string, string> = {};
+            for (const [name, value] of Object.entries(config.env)) {
+                env[name] = await this.resolve(value);
+            }
+            config.env = env;
+        }
+
+        return config;
+    }
+
+    async resolve(value: string): Promise<string> {
+        let result = '';
+        let lastIndex = 0;
+
+        // Replace sequentially so interactive inputs are prompted in the order they appear
+        for (const match of value.matchAll(VARIABLE_PATTERN)) {
+            result += value.slice(lastIndex, match.index) + await this.resolveVariable(match[1]);
+            lastIndex = match.index! + match[0].length;
+        }
+
+        return result + value.slice(lastIndex);
+    }
+
+    private async resolveAll(values: string[]): Promise<string[]> {
+        const resolved: string[] = [];
+        for (const value of values) {
+            resolved.push(await this.resolve(value));
+        }
+        return resolved;
+    }
+
+    private async resolveVariable(variable: string): Promise<string> {
+        switch (variable) {
+            case 'workspaceFolder': {
+                const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(this.context.projectDir))
+                    || vscode.workspace.workspaceFolders?.[0];
+                return folder?.uri.fsPath || this.context.projectDir;
+            }
+            case 'projectDir':
+                return this.context.projectDir;
+            case 'configDir':
+                return this.context.configDir;
+            case 'userHome':
+                return os.homedir();
+            case 'pathSeparator':
+                return path.sep;
+        }
+
+        const separator = variable.indexOf(':');
+        const prefix = separator === -1 ? variable : variable.slice(0, separator);
+        const argument = variable.slice(separator + 1);
+
+        switch (prefix) {
+            case 'env':
+                return process.env[argument] || '';
+            case 'config': {
+                const value = vscode.workspace.getConfiguration().get(argument);
+                if (value === undefined || value === null) {
+                    return '';
+                }
+                return typeof value === 'object' ? JSON.stringify(value) : String(value);
+            }
+            case 'input':
+                return this.resolveInput(argument);
+        }
+
+        throw new Error(`Unknown variable \${${variable}}`);
+    }
+
+    private async resolveInput(id: string): Promise<string> {
+        const cached = this.inputValues.get(id);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const input = this.context.inputs?.find(candidate => candidate.id === id);
+        if (!input) {
+            throw new Error(`Input "${id}" is not declared in "inputs"`);
+        }
+
+        let value: string | undefined;
+        if (input.type === 'pickString') {
+            const picked = await vscode.window.showQuickPick((input.options || []).map(option => ({
+                label: option,
+                description: option === input.default ? '(default)' : undefined
+            })), {
+                placeHolder: input.description || `Select a value for ${id}`,
+                ignoreFocusOut: true
+            });
+            value = picked?.label;
+        } else {
+            value = await vscode.window.showInputBox({
+                prompt: input.description || `Enter a value for ${id}`,
+                value: input.default,
+                password: input.password,
+                ignoreFocusOut: true
+            });
+        }
+
+        if (value === undefined) {
+            throw new InputCancelledError(id);
+        }
+
+        this.inputValues.set(id, value);
+        return value;
+    }
+}
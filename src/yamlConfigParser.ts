@@ -0,0 +1,109 @@
+import * as yaml from 'yaml';
+import { ConfigSyntaxError, ParsedConfigSource } from './configParser';
+import { TerminalLauncherConfig } from './types';
+import { isRecord, listOf } from './typeGuards';
+
+// Aliases can expand exponentially; a config never needs anywhere near this many
+const MAX_ALIAS_COUNT = 1000;
+
+export class YamlConfigParser {
+    parse(content: string): ParsedConfigSource {
+        // merge enables "<<: *shared" keys, the usual way to share env blocks between terminals
+        const document = yaml.parseDocument(content, { merge: true, prettyErrors: false });
+        const errors: ConfigSyntaxError[] = document.errors.map(error => ({
+            message: `YAML syntax error: ${error.message.split('\n')[0]}`,
+            range: { offset: error.pos[0], length: Math.max(error.pos[1] - error.pos[0], 1) }
+        }));
+
+        let config: TerminalLauncherConfig = {};
+        if (yaml.isMap(document.contents)) {
+            let parsed: unknown;
+            try {
+                parsed = document.toJS({ maxAliasCount: MAX_ALIAS_COUNT });
+            } catch (error) {
+                errors.push({
+                    message: `YAML error: ${error instanceof Error ? error.message : error}`,
+                    range: this.getRange(document.contents) || { offset: 0, length: 1 }
+                });
+            }
+            if (isRecord(parsed)) {
+                this.dropExtensionKeys(parsed);
+                this.splitCommandBlocks(parsed);
+                // Checked by the validator like every other format
+                config = parsed as TerminalLauncherConfig;
+            }
+        } else if (document.contents && !(yaml.isScalar(document.contents) && document.contents.value === null)) {
+            errors.push({
+                message: 'Configuration must be a YAML mapping',
+                range: this.getRange(document.contents) || { offset: 0, length: 1 }
+            });
+        }
+
+        return {
+            config,
+            content,
+            errors,
+            locate: (configPath, target = 'value') => {
+                let node: unknown = document.contents;
+                let keyNode: unknown;
+
+                for (const segment of configPath) {
+                    // Anchored values are located where the anchor is defined
+                    if (yaml.isAlias(node)) {
+                        node = node.resolve(document);
+                    }
+                    if (yaml.isMap(node)) {
+                        const pair = node.items.find(item => yaml.isScalar(item.key) && String(item.key.value) === String(segment));
+                        if (!pair) {
+                            return undefined;
+                        }
+                        keyNode = pair.key;
+                        node = pair.value;
+                    } else if (yaml.isSeq(node) && typeof segment === 'number') {
+                        keyNode = undefined;
+                        node = node.items[segment];
+                    } else {
+                        return undefined;
+                    }
+                }
+
+                return this.getRange(target === 'key' && keyNode ? keyNode : node);
+            }
+        };
+    }
+
+    // Top-level "x-" keys only hold anchors for reuse elsewhere, as in docker-compose files
+    private dropExtensionKeys(config: Record<string, unknown>) {
+        for (const key of Object.keys(config)) {
+            if (key.startsWith('x-')) {
+                delete config[key];
+            }
+        }
+    }
+
+    // A block scalar under "commands" lists one command per line
+    private splitCommandBlocks(config: Record<string, unknown>) {
+        const split = (owner: unknown) => {
+            if (isRecord(owner) && typeof owner.commands === 'string') {
+                owner.commands = owner.commands.split('\n').map(command => command.trim()).filter(Boolean);
+            }
+        };
+
+        const terminals = [
+            ...listOf(config.terminals),
+            ...listOf(config.groups).flatMap(group => isRecord(group) ? listOf(group.terminals) : [])
+        ];
+        terminals.forEach(split);
+
+        for (const profile of listOf(config.profiles)) {
+            if (isRecord(profile) && isRecord(profile.overrides)) {
+                Object.values(profile.overrides).forEach(split);
+            }
+        }
+    }
+
+    private getRange(node: unknown): { offset: number, length: number } | undefined {
+        const range = yaml.isNode(node) ? node.range : undefined;
+        return range ? { offset: range[0], length: Math.max(range[1] - range[0], 1) } : undefined;
+    }
+}